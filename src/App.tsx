@@ -8,6 +8,9 @@ import ServiceMonitorPage from './pages/ServiceMonitorPage';
 import ConfigCheckPage from './pages/ConfigCheckPage';
 import TagManagementPage from './pages/TagManagementPage';
 import UsersPage from './pages/UsersPage';
+import UserDetailPage from './pages/UserDetailPage';
+import CaseTracePage from './pages/CaseTracePage';
+import CaseStatsPage from './pages/CaseStatsPage';
 
 function App() {
   return (
@@ -16,12 +19,16 @@ function App() {
         <Routes>
           <Route path="/" element={<HomePage />} />
           <Route path="/workflow" element={<WorkflowPage />} />
+          <Route path="/workflow/:draftId" element={<WorkflowPage />} />
           <Route path="/health" element={<HealthCheckPage />} />
           <Route path="/diagnostic" element={<DataDiagnosticPage />} />
           <Route path="/monitor" element={<ServiceMonitorPage />} />
           <Route path="/config" element={<ConfigCheckPage />} />
           <Route path="/tags" element={<TagManagementPage />} />
           <Route path="/users" element={<UsersPage />} />
+          <Route path="/users/:id" element={<UserDetailPage />} />
+          <Route path="/cases/stats" element={<CaseStatsPage />} />
+          <Route path="/cases/:caseId/trace" element={<CaseTracePage />} />
         </Routes>
       </Layout>
     </BrowserRouter>
@@ -1,4 +1,4 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import type { DecisionTree, CaseWithDebugInfo } from '../types/workflow';
 import type {
   TagDefinition,
@@ -9,6 +9,16 @@ import type {
   TagCondition,
   QueryByTagsResponse,
 } from '../types/tag';
+import type {
+  SSOUser,
+  ListUsersParams,
+  ListUsersResponse,
+  SSOSyncResult,
+  SSOSyncJob,
+  SSOSyncJobDetail,
+} from '../types/user';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { isMutatingMethod, recordAsUserRequest } from '../utils/asUserAudit';
 
 // API 响应格式
 interface ApiResponse<T = unknown> {
@@ -25,6 +35,30 @@ const api: AxiosInstance = axios.create({
   withCredentials: true,
 });
 
+// 代为操作期间的写请求：记录发出时间，响应后写入审计日志
+const asUserRequestStart = new WeakMap<InternalAxiosRequestConfig, number>();
+
+function auditAsUserRequest(config: InternalAxiosRequestConfig | undefined, status?: number, error?: string) {
+  const startedAt = config && asUserRequestStart.get(config);
+  if (!config || startedAt === undefined) return;
+  asUserRequestStart.delete(config);
+  // 审计写入失败（如存储空间已满）不能影响请求本身的结果
+  try {
+    recordAsUserRequest({
+      time: new Date(startedAt).toISOString(),
+      asUser: String(config.headers['X-As-User']),
+      method: (config.method || 'get').toUpperCase(),
+      url: `${config.baseURL || ''}${config.url || ''}`,
+      status,
+      ok: !error,
+      error,
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (err) {
+    console.error('Failed to record as-user audit entry:', err);
+  }
+}
+
 // 请求拦截器
 api.interceptors.request.use(
   (config) => {
@@ -36,6 +70,9 @@ api.interceptors.request.use(
     const asUser = localStorage.getItem('as_user');
     if (asUser) {
       config.headers['X-As-User'] = asUser;
+      if (isMutatingMethod(config.method)) {
+        asUserRequestStart.set(config, Date.now());
+      }
     }
 
     return config;
@@ -46,13 +83,22 @@ api.interceptors.request.use(
 // 响应拦截器
 api.interceptors.response.use(
   (response: AxiosResponse<ApiResponse>) => {
+    // 文件下载（如导出设计）直接返回内容，没有 code/message 包装
+    if (response.config.responseType === 'blob') {
+      auditAsUserRequest(response.config, response.status);
+      return response;
+    }
     const { data } = response;
     if (data.code !== 0) {
-      return Promise.reject(new Error(data.message || data.error || 'Unknown error'));
+      const message = data.message || data.error || 'Unknown error';
+      auditAsUserRequest(response.config, response.status, message);
+      return Promise.reject(new Error(message));
     }
+    auditAsUserRequest(response.config, response.status);
     return response;
   },
   (error) => {
+    auditAsUserRequest(error.config, error.response?.status, getErrorMessage(error));
     if (error.response?.status === 401) {
       console.error('Unauthorized');
     }
@@ -121,7 +167,7 @@ export interface DesignerEdge {
 
 export interface ValidationResult {
   valid: boolean;
-  errors: Array<{ code: string; message: string; nodeId?: string }>;
+  errors: Array<{ code: string; message: string; nodeId?: string; edgeId?: string; field?: string }>;
   warnings: Array<{ code: string; message: string; nodeId?: string }>;
 }
 
@@ -165,6 +211,7 @@ export async function updateDraft(
     description?: string;
     nodes?: DesignerNode[];
     edges?: DesignerEdge[];
+    variables?: Record<string, unknown>;
   }
 ): Promise<WorkflowDesign> {
   const res = await api.put<ApiResponse<WorkflowDesign>>(`/designer/drafts/${id}`, data);
@@ -176,6 +223,17 @@ export async function deleteDraft(id: string): Promise<void> {
   await api.delete(`/designer/drafts/${id}`);
 }
 
+// 复制草稿：以原草稿的节点和连线创建新草稿
+export async function duplicateDraft(id: string, name?: string): Promise<WorkflowDesign> {
+  const source = await getDraft(id);
+  const copy = await createDraft({
+    name: name || `${source.name} 副本`,
+    description: source.description,
+    addDefaultNodes: false,
+  });
+  return updateDraft(copy.id, { nodes: source.nodes, edges: source.edges, variables: source.variables });
+}
+
 // 添加节点
 export async function addNode(
   draftId: string,
@@ -330,10 +388,30 @@ export interface DebugSession {
     data: Record<string, unknown>;
   };
   variables: Record<string, unknown>;
-  breakpoints: Record<string, { nodeId: string; enabled: boolean }>;
+  breakpoints: Record<string, DebugBreakpoint>;
   timeline: ExecutionStep[];
 }
 
+export interface DebugBreakpoint {
+  nodeId: string;
+  condition?: string;
+  hitCondition?: string;
+  logMessage?: string;
+  enabled: boolean;
+  hitCount?: number;
+}
+
+export type BreakpointOptions = Partial<Pick<DebugBreakpoint, 'condition' | 'hitCondition' | 'logMessage' | 'enabled'>>;
+
+function toBreakpointBody(options: BreakpointOptions) {
+  return {
+    condition: options.condition,
+    hit_condition: options.hitCondition,
+    log_message: options.logMessage,
+    enabled: options.enabled,
+  };
+}
+
 export interface ExecutionStep {
   id: number;
   stepIndex: number;
@@ -399,18 +477,27 @@ export async function debugStop(sessionId: string): Promise<void> {
   await api.post(`/debug/sessions/${sessionId}/stop`);
 }
 
-// 添加断点
+// 添加断点（设置 logMessage 时为日志点）
 export async function addBreakpoint(
   sessionId: string,
   nodeId: string,
-  condition?: string
+  options: BreakpointOptions = {}
 ): Promise<void> {
   await api.post(`/debug/sessions/${sessionId}/breakpoints`, {
     node_id: nodeId,
-    condition,
+    ...toBreakpointBody(options),
   });
 }
 
+// 修改断点（条件、启用状态等）
+export async function updateBreakpoint(
+  sessionId: string,
+  nodeId: string,
+  options: BreakpointOptions
+): Promise<void> {
+  await api.put(`/debug/sessions/${sessionId}/breakpoints/${nodeId}`, toBreakpointBody(options));
+}
+
 // 移除断点
 export async function removeBreakpoint(sessionId: string, nodeId: string): Promise<void> {
   await api.delete(`/debug/sessions/${sessionId}/breakpoints/${nodeId}`);
@@ -467,6 +554,27 @@ export async function getCaseDetail(caseId: string): Promise<CaseInfo> {
   return res.data.data;
 }
 
+// 按提交人等条件分页查询案件
+export interface ListCasesParams {
+  submitterId?: string;
+  academicYear?: string;
+  page?: number;
+  limit?: number;
+}
+
+export async function listCases(params: ListCasesParams = {}): Promise<{ items: CaseInfo[]; total: number }> {
+  const res = await api.get<ApiResponse<{ items: CaseInfo[]; total: number }>>('/ce/cases', {
+    params: {
+      submitter_id: params.submitterId,
+      academic_year: params.academicYear,
+      page: params.page,
+      limit: params.limit,
+    },
+  });
+  const items = res.data.data?.items || [];
+  return { items, total: res.data.data?.total ?? items.length };
+}
+
 // 获取案件详情（带调试信息）
 // 仅管理员可用，返回工作流决策树
 export async function getCaseWithDebug(caseId: string): Promise<CaseWithDebugInfo> {
@@ -656,6 +764,24 @@ function generateMockConfigCheckResult(): ConfigCheckResult {
   return { valid, items, checkedAt: new Date().toISOString() };
 }
 
+function generateMockUsers(params: ListUsersParams): ListUsersResponse {
+  const all: SSOUser[] = [
+    { id: 1, sso_id: 'mock-1', username: 'superadmin', email: 'admin@test.edu.cn', display_name: '超级管理员', department: '信息中心', grade: '', class_name: '', student_id: '', role: 'super_admin', is_active: true },
+    { id: 2, sso_id: 'mock-2', username: 'gradeadmin', email: 'grade@test.edu.cn', display_name: '2024级辅导员', department: '计算机学院', grade: '', class_name: '', student_id: '', role: 'grade_admin', is_active: true },
+    { id: 3, sso_id: 'mock-3', username: 'admin1', email: 'admin1@test.edu.cn', display_name: '2024级1班班主任', department: '计算机学院', grade: '2024', class_name: '2024级1班', student_id: '', role: 'admin', is_active: true },
+    { id: 4, sso_id: 'mock-4', username: 'student1', email: 'student1@test.edu.cn', display_name: '张三', department: '计算机学院', grade: '2024', class_name: '2024级1班', student_id: '2024010101', role: 'student', is_active: true },
+  ];
+  const keyword = params.keyword?.toLowerCase();
+  const matched = all.filter(
+    (u) =>
+      (!params.role || u.role === params.role) &&
+      (!keyword || [u.display_name, u.username, u.student_id].some((v) => v.toLowerCase().includes(keyword)))
+  );
+  const page = params.page || 1;
+  const limit = params.limit || 20;
+  return { items: matched.slice((page - 1) * limit, page * limit), total: matched.length };
+}
+
 // ========== 带 Mock 标识的响应包装 ==========
 
 export interface WithMockFlag<T> {
@@ -707,8 +833,35 @@ export async function checkConfig(): Promise<WithMockFlag<ConfigCheckResult>> {
   }
 }
 
+// 用户列表
+export async function listUsersWithMock(params: ListUsersParams = {}): Promise<WithMockFlag<ListUsersResponse>> {
+  try {
+    return { data: await listUsers(params), isMock: false };
+  } catch {
+    console.warn('[API] listUsers: using mock data');
+    return { data: generateMockUsers(params), isMock: true };
+  }
+}
+
 // ========== 工具函数 ==========
 
+// 提取错误信息：优先使用后端返回的 message/error 字段
+export function getErrorMessage(err: unknown, fallback = '请求失败'): string {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as Partial<ApiResponse> | undefined;
+    return data?.message || data?.error || err.message || fallback;
+  }
+  if (err instanceof Error) {
+    return err.message || fallback;
+  }
+  return fallback;
+}
+
+// 请求没有拿到响应（网络不通或超时），即后端不可用
+export function isNetworkError(err: unknown): boolean {
+  return axios.isAxiosError(err) && !err.response;
+}
+
 // 设置开发 token
 export function setDevToken(token: string): void {
   localStorage.setItem('access_token', token);
@@ -731,6 +884,14 @@ export function clearAuth(): void {
   document.cookie = 'access_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
 }
 
+// ========== 系统配置 API ==========
+
+// 读取单个系统配置项的值，不存在时返回 null
+export async function getSystemConfigValue(key: string): Promise<string | null> {
+  const res = await api.get<ApiResponse<{ key: string; value: string }[]>>('/config/list');
+  return (res.data.data || []).find((c) => c.key === key)?.value ?? null;
+}
+
 // ========== 标签管理 API (Admin) ==========
 
 // 获取所有标签定义
@@ -760,8 +921,9 @@ export async function deleteTagDefinition(id: number): Promise<void> {
 }
 
 // 获取标签的所有现有值
-export async function getTagValues(tagId: number): Promise<string[]> {
-  const res = await api.get<ApiResponse<string[]>>(`/admin/tags/${tagId}/values`);
+export async function getTagValues(tagId: number, academicYear?: string): Promise<string[]> {
+  const params = academicYear ? { academic_year: academicYear } : {};
+  const res = await api.get<ApiResponse<string[]>>(`/admin/tags/${tagId}/values`, { params });
   return res.data.data || [];
 }
 
@@ -784,13 +946,112 @@ export async function listUsersByTag(
   tagId: number,
   params?: ListUsersByTagParams
 ): Promise<ListUsersByTagResponse> {
-  const res = await api.get<ApiResponse<ListUsersByTagResponse>>(
-    `/admin/tags/${tagId}/users`,
-    { params }
-  );
+  const res = await api.get<ApiResponse<ListUsersByTagResponse>>(`/admin/tags/${tagId}/users`, {
+    params: {
+      tag_value: params?.tagValue,
+      academic_year: params?.academicYear,
+      page: params?.page,
+      limit: params?.limit,
+    },
+  });
   return res.data.data;
 }
 
+// ========== 用户 API ==========
+
+// 获取用户列表
+export async function listUsers(params: ListUsersParams = {}): Promise<ListUsersResponse> {
+  const res = await api.get<ApiResponse<ListUsersResponse>>('/users', { params });
+  const items = res.data.data?.items || [];
+  return { items, total: res.data.data?.total ?? items.length };
+}
+
+// 获取单个用户
+export async function getUser(userId: number): Promise<SSOUser> {
+  const res = await api.get<ApiResponse<SSOUser>>(`/users/${userId}`);
+  return res.data.data;
+}
+
+// ========== SSO 同步 API ==========
+
+// 从 SSO 拉取并同步用户（旧接口，同步完成后才返回）
+export async function syncSSO(): Promise<SSOSyncResult> {
+  const res = await api.post<ApiResponse<Partial<SSOSyncResult>>>('/users/sync-sso');
+  return { synced: res.data.data?.synced || 0, failed: res.data.data?.failed || 0 };
+}
+
+const isNotFound = (err: unknown) => axios.isAxiosError(err) && err.response?.status === 404;
+
+// 旧接口没有任务记录，本地生成的任务 ID 带此前缀，并保存在浏览器中作为同步历史
+export const LEGACY_SSO_SYNC_JOB_PREFIX = 'legacy-';
+const LEGACY_SSO_SYNC_STORAGE_KEY = 'legacy_sso_sync_jobs';
+const LEGACY_SSO_SYNC_HISTORY_LIMIT = 20;
+
+function readLegacySSOSyncJobs(): SSOSyncJob[] {
+  try {
+    return JSON.parse(localStorage.getItem(LEGACY_SSO_SYNC_STORAGE_KEY) || '[]') as SSOSyncJob[];
+  } catch {
+    return [];
+  }
+}
+
+function saveLegacySSOSyncJob(job: SSOSyncJob) {
+  const jobs = [job, ...readLegacySSOSyncJobs()].slice(0, LEGACY_SSO_SYNC_HISTORY_LIMIT);
+  try {
+    localStorage.setItem(LEGACY_SSO_SYNC_STORAGE_KEY, JSON.stringify(jobs));
+  } catch {
+    // 存储失败只影响历史记录，同步本身已经完成
+  }
+}
+
+// 启动 SSO 同步任务，立即返回任务，进度通过 getSSOSyncJob 轮询
+// 后端不支持任务接口时退回 syncSSO，返回一个已结束的任务（只有汇总，没有逐个用户的结果）
+export async function startSSOSync(): Promise<SSOSyncJob> {
+  try {
+    const res = await api.post<ApiResponse<SSOSyncJob>>('/users/sync-sso/jobs');
+    return res.data.data;
+  } catch (err) {
+    if (!isNotFound(err)) throw err;
+  }
+  const startedAt = new Date().toISOString();
+  const { synced, failed } = await syncSSO();
+  const job: SSOSyncJob = {
+    id: `${LEGACY_SSO_SYNC_JOB_PREFIX}${Date.now()}`,
+    status: 'succeeded',
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    total: synced + failed,
+    processed: synced + failed,
+    // 旧接口不区分新建和更新
+    created: 0,
+    updated: synced,
+    deactivated: 0,
+    failed,
+  };
+  saveLegacySSOSyncJob(job);
+  return job;
+}
+
+// 获取同步任务及逐个用户的结果
+export async function getSSOSyncJob(jobId: string): Promise<SSOSyncJobDetail> {
+  const res = await api.get<ApiResponse<SSOSyncJobDetail>>(`/users/sync-sso/jobs/${jobId}`);
+  return { ...res.data.data, results: res.data.data.results || [] };
+}
+
+// 历史同步任务，按开始时间倒序
+export async function listSSOSyncJobs(limit = 20): Promise<SSOSyncJob[]> {
+  try {
+    const res = await api.get<ApiResponse<{ items: SSOSyncJob[] }>>('/users/sync-sso/jobs', {
+      params: { limit },
+    });
+    return res.data.data?.items || [];
+  } catch (err) {
+    // 旧后端没有任务记录，返回本地保存的同步历史
+    if (isNotFound(err)) return readLegacySSOSyncJobs().slice(0, limit);
+    throw err;
+  }
+}
+
 // ========== 用户标签 API ==========
 
 // 获取用户标签
@@ -806,6 +1067,32 @@ export async function getUserTags(
   return res.data.data || {};
 }
 
+// 批量获取多个用户的标签；后端不支持批量接口时退回逐个并发请求
+export async function getUsersTagsBatch(
+  userIds: number[],
+  academicYear?: string
+): Promise<Record<number, Record<string, string>>> {
+  if (userIds.length === 0) return {};
+  try {
+    const res = await api.post<ApiResponse<Record<string, Record<string, string>>>>('/users/tags/batch', {
+      user_ids: userIds,
+      academic_year: academicYear,
+    });
+    const data = res.data.data || {};
+    return Object.fromEntries(userIds.map((id) => [id, data[id] || {}]));
+  } catch (err) {
+    const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+    if (status !== 404 && status !== 405) throw err;
+  }
+  const results = await mapWithConcurrency(userIds, 4, (id) => getUserTags(id, academicYear));
+  return Object.fromEntries(
+    userIds.flatMap((id, i) => {
+      const result = results[i];
+      return result.ok ? [[id, result.value]] : [];
+    })
+  );
+}
+
 // 分配标签给用户
 export async function assignUserTag(userId: number, data: AssignTagRequest): Promise<void> {
   await api.post(`/users/${userId}/tags`, data);
@@ -821,20 +1108,57 @@ export async function removeUserTag(
   await api.delete(`/users/${userId}/tags/${tagName}`, { params });
 }
 
+// 把上一学年的标签复制到新学年；新学年已有的标签保持不变
+export async function copyUserTagsForward(
+  userId: number,
+  fromYear: string,
+  toYear: string
+): Promise<{ copied: string[]; skipped: string[] }> {
+  const [previous, current] = await Promise.all([getUserTags(userId, fromYear), getUserTags(userId, toYear)]);
+  const copied: string[] = [];
+  const skipped: string[] = [];
+  for (const [tagName, tagValue] of Object.entries(previous)) {
+    if (tagName in current) {
+      skipped.push(tagName);
+      continue;
+    }
+    await assignUserTag(userId, { tag_name: tagName, tag_value: tagValue, academic_year: toYear });
+    copied.push(tagName);
+  }
+  return { copied, skipped };
+}
+
 // 根据标签条件查询用户
 export async function queryUsersByTags(
   condition: TagCondition,
   page = 1,
-  limit = 20
+  limit = 20,
+  academicYear?: string
 ): Promise<QueryByTagsResponse> {
   const res = await api.post<ApiResponse<QueryByTagsResponse>>('/users/by-tags', {
     condition,
     page,
     limit,
+    academic_year: academicYear,
   });
   return res.data.data;
 }
 
+// 分页拉取满足标签条件的全部用户
+export async function queryAllUsersByTags(
+  condition: TagCondition,
+  academicYear?: string,
+  pageSize = 100
+): Promise<UserWithTags[]> {
+  const users: UserWithTags[] = [];
+  for (let page = 1; ; page += 1) {
+    const res = await queryUsersByTags(condition, page, pageSize, academicYear);
+    users.push(...res.users);
+    if (res.users.length < pageSize || users.length >= res.total) break;
+  }
+  return users;
+}
+
 // 批量获取用户及其标签
 export async function getUsersWithTags(userIds: number[]): Promise<UserWithTags[]> {
   const results: UserWithTags[] = [];
@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { CalendarDays, RotateCcw } from 'lucide-react';
+import { useAcademicYearStore } from '../stores/academicYearStore';
+import { selectableAcademicYears } from '../utils/academicYear';
+
+// 全局学年选择器，影响所有标签读写
+export default function AcademicYearSelect() {
+  const { currentYear, selectedYear, fromConfig, loadCurrentYear, setSelectedYear, resetToCurrent } =
+    useAcademicYearStore();
+
+  useEffect(() => {
+    loadCurrentYear();
+  }, [loadCurrentYear]);
+
+  const years = selectableAcademicYears(currentYear);
+  if (!years.includes(selectedYear)) years.push(selectedYear);
+  const isCurrent = selectedYear === currentYear;
+
+  return (
+    <div
+      className={`flex items-center gap-1 px-2 py-1 rounded-lg text-sm ${
+        isCurrent ? 'text-gray-600' : 'bg-amber-50 text-amber-700'
+      }`}
+      title={fromConfig ? '当前学年来自 current_academic_year 配置' : '未读取到 current_academic_year 配置，按日期推算'}
+    >
+      <CalendarDays size={16} />
+      <select
+        value={selectedYear}
+        onChange={(e) => setSelectedYear(e.target.value)}
+        className="bg-transparent text-sm font-medium outline-none cursor-pointer"
+      >
+        {years.map((year) => (
+          <option key={year} value={year}>
+            {year}
+            {year === currentYear ? '（当前）' : ''}
+          </option>
+        ))}
+      </select>
+      {!isCurrent && (
+        <button onClick={resetToCurrent} className="p-0.5 hover:text-amber-900" title="回到当前学年">
+          <RotateCcw size={12} />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { X, FileDown, Trash2, ShieldAlert } from 'lucide-react';
+import { readAsUserAudit, clearAsUserAudit, subscribeAsUserAudit, type AsUserAuditEntry } from '../utils/asUserAudit';
+import { downloadCsv } from '../utils/csv';
+
+// 订阅本地审计日志
+export function useAsUserAudit(): AsUserAuditEntry[] {
+  const [entries, setEntries] = useState(readAsUserAudit);
+  useEffect(() => subscribeAsUserAudit(() => setEntries(readAsUserAudit())), []);
+  return entries;
+}
+
+const methodColors: Record<string, string> = {
+  POST: 'bg-green-100 text-green-700',
+  PUT: 'bg-blue-100 text-blue-700',
+  PATCH: 'bg-blue-100 text-blue-700',
+  DELETE: 'bg-red-100 text-red-700',
+};
+
+interface AsUserAuditModalProps {
+  // 只显示该用户的记录
+  asUser?: string;
+  onClose: () => void;
+}
+
+// As-User 期间写请求的本地审计日志
+export default function AsUserAuditModal({ asUser, onClose }: AsUserAuditModalProps) {
+  const allEntries = useAsUserAudit();
+  const [onlyCurrent, setOnlyCurrent] = useState(!!asUser);
+  const entries = onlyCurrent && asUser ? allEntries.filter((e) => e.asUser === asUser) : allEntries;
+
+  const handleExport = () => {
+    downloadCsv('as-user-audit.csv', [
+      ['time', 'as_user', 'method', 'url', 'status', 'ok', 'error', 'duration_ms'],
+      ...entries.map((e) => [e.time, e.asUser, e.method, e.url, e.status, e.ok, e.error, e.durationMs]),
+    ]);
+  };
+
+  const handleClear = () => {
+    if (window.confirm('清空全部 As-User 审计记录？')) clearAsUserAudit();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[80vh] flex flex-col text-gray-900">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5 text-amber-500" />
+              As-User 审计日志
+            </h3>
+            <p className="text-sm text-gray-500">代为操作期间发出的写请求，仅保存在本浏览器</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-2 border-b flex items-center gap-3 text-sm">
+          {asUser && (
+            <label className="flex items-center gap-1.5 text-gray-600">
+              <input
+                type="checkbox"
+                checked={onlyCurrent}
+                onChange={(e) => setOnlyCurrent(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              只看当前用户 #{asUser}
+            </label>
+          )}
+          <span className="text-gray-400">{entries.length} 条</span>
+          <button
+            onClick={handleExport}
+            disabled={entries.length === 0}
+            className="ml-auto flex items-center gap-1 text-gray-600 hover:text-gray-900 disabled:opacity-40"
+          >
+            <FileDown size={14} />
+            导出
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={allEntries.length === 0}
+            className="flex items-center gap-1 text-red-600 hover:text-red-700 disabled:opacity-40"
+          >
+            <Trash2 size={14} />
+            清空
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {entries.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-400">暂无记录</p>
+          ) : (
+            <AsUserAuditTable entries={entries} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function AsUserAuditTable({ entries }: { entries: AsUserAuditEntry[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead className="bg-gray-50 sticky top-0">
+        <tr>
+          <th className="px-4 py-2 text-left font-medium text-gray-600">时间</th>
+          <th className="px-4 py-2 text-left font-medium text-gray-600">As-User</th>
+          <th className="px-4 py-2 text-left font-medium text-gray-600">请求</th>
+          <th className="px-4 py-2 text-left font-medium text-gray-600">结果</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y">
+        {entries.map((e) => (
+          <tr key={e.id}>
+            <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{new Date(e.time).toLocaleString()}</td>
+            <td className="px-4 py-2 font-mono text-xs text-gray-600">#{e.asUser}</td>
+            <td className="px-4 py-2">
+              <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${methodColors[e.method] || 'bg-gray-100'}`}>
+                {e.method}
+              </span>
+              <span className="ml-2 font-mono text-xs text-gray-700 break-all">{e.url}</span>
+            </td>
+            <td className="px-4 py-2 text-xs whitespace-nowrap">
+              {e.ok ? (
+                <span className="text-green-600">{e.status} · {e.durationMs}ms</span>
+              ) : (
+                <span className="inline-block max-w-xs truncate align-bottom text-red-600" title={e.error}>
+                  {e.status ?? '网络错误'} · {e.error}
+                </span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { UserCheck, LogOut, Repeat, ScrollText, ChevronDown } from 'lucide-react';
+import { useAsUserStore } from '../stores/asUserStore';
+import AsUserSwitcher from './AsUserSwitcher';
+import AsUserAuditModal, { useAsUserAudit } from './AsUserAuditModal';
+
+// 点击外部时关闭的下拉
+function useDismiss(open: boolean, onDismiss: () => void) {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) onDismiss();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open, onDismiss]);
+  return ref;
+}
+
+// 导航栏入口：未代为操作时选择用户
+export function AsUserNavButton() {
+  const asUser = useAsUserStore((s) => s.asUser);
+  const [open, setOpen] = useState(false);
+  const ref = useDismiss(open, () => setOpen(false));
+  if (asUser) return null;
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100"
+        title="以其他用户身份发送请求"
+      >
+        <UserCheck size={16} />
+        As-User
+        <ChevronDown size={14} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-50">
+          <AsUserSwitcher onSelected={() => setOpen(false)} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 以其他用户身份操作时的常驻提示
+export default function AsUserBanner() {
+  const { asUser, exit } = useAsUserStore();
+  const entries = useAsUserAudit();
+  const [switcherOpen, setSwitcherOpen] = useState(false);
+  const [auditOpen, setAuditOpen] = useState(false);
+  const switcherRef = useDismiss(switcherOpen, () => setSwitcherOpen(false));
+  if (!asUser) return null;
+
+  const auditCount = entries.filter((e) => e.asUser === asUser.id).length;
+
+  return (
+    <div className="bg-amber-500 text-white px-6 py-1.5 text-sm flex items-center gap-2">
+      <UserCheck size={16} />
+      <span>
+        正在以
+        <Link to={`/users/${asUser.id}`} className="mx-1 font-semibold underline underline-offset-2">
+          {asUser.name}
+        </Link>
+        的身份发送请求（X-As-User: {asUser.id}）
+      </span>
+      <div className="ml-auto flex items-center gap-2">
+        <button
+          onClick={() => setAuditOpen(true)}
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-white/20 hover:bg-white/30"
+        >
+          <ScrollText size={14} />
+          写操作 {auditCount}
+        </button>
+        <div className="relative" ref={switcherRef}>
+          <button
+            onClick={() => setSwitcherOpen(!switcherOpen)}
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-white/20 hover:bg-white/30"
+          >
+            <Repeat size={14} />
+            切换
+          </button>
+          {switcherOpen && (
+            <div className="absolute top-full right-0 mt-1 z-50">
+              <AsUserSwitcher onSelected={() => setSwitcherOpen(false)} />
+            </div>
+          )}
+        </div>
+        <button
+          onClick={exit}
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-white/20 hover:bg-white/30"
+        >
+          <LogOut size={14} />
+          退出
+        </button>
+      </div>
+      {auditOpen && <AsUserAuditModal asUser={asUser.id} onClose={() => setAuditOpen(false)} />}
+    </div>
+  );
+}
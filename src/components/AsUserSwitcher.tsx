@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Search, User, RefreshCw, History } from 'lucide-react';
+import { listUsers, getErrorMessage } from '../api/client';
+import { useAsUserStore } from '../stores/asUserStore';
+import { roleLabels } from '../utils/roles';
+import type { SSOUser } from '../types/user';
+
+interface AsUserSwitcherProps {
+  onSelected: () => void;
+}
+
+// As-User 切换面板：搜索用户或从最近使用中选择
+export default function AsUserSwitcher({ onSelected }: AsUserSwitcherProps) {
+  const { asUser, recent, actAs } = useAsUserStore();
+  const [keyword, setKeyword] = useState('');
+  const [results, setResults] = useState<SSOUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!keyword.trim()) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await listUsers({ keyword: keyword.trim(), limit: 8 });
+        setResults(res.items.filter((u) => u.is_active));
+      } catch (err) {
+        setError(getErrorMessage(err, '搜索用户失败'));
+      } finally {
+        setLoading(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [keyword]);
+
+  const select = (id: string, name: string) => {
+    actAs({ id, name });
+    onSelected();
+  };
+
+  const recentOthers = recent.filter((r) => r.id !== asUser?.id);
+
+  return (
+    <div className="w-72 bg-white border border-gray-200 rounded-lg shadow-lg text-gray-700">
+      <div className="p-2 border-b border-gray-100">
+        <div className="relative">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            autoFocus
+            type="text"
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value)}
+            placeholder="搜索要代为操作的用户..."
+            className="w-full pl-8 pr-3 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-amber-400 focus:border-amber-400"
+          />
+        </div>
+      </div>
+      <div className="max-h-72 overflow-y-auto py-1">
+        {keyword.trim() ? (
+          loading ? (
+            <div className="px-3 py-2 text-xs text-gray-500 flex items-center gap-1">
+              <RefreshCw size={12} className="animate-spin" />
+              搜索中...
+            </div>
+          ) : error ? (
+            <div className="px-3 py-2 text-xs text-red-600">{error}</div>
+          ) : results.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-gray-400">没有匹配的活跃用户</div>
+          ) : (
+            results.map((u) => (
+              <button
+                key={u.id}
+                onClick={() => select(String(u.id), u.display_name)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left hover:bg-amber-50"
+              >
+                <User size={14} className="text-gray-400" />
+                <span className="flex-1 truncate">{u.display_name}</span>
+                <span className="text-xs text-gray-400">{roleLabels[u.role]?.label || u.role}</span>
+              </button>
+            ))
+          )
+        ) : recentOthers.length === 0 ? (
+          <div className="px-3 py-2 text-xs text-gray-400">输入姓名或学号搜索用户</div>
+        ) : (
+          <>
+            <div className="px-3 py-1 text-xs text-gray-500 flex items-center gap-1">
+              <History size={12} />
+              最近使用
+            </div>
+            {recentOthers.map((r) => (
+              <button
+                key={r.id}
+                onClick={() => select(r.id, r.name)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left hover:bg-amber-50"
+              >
+                <User size={14} className="text-gray-400" />
+                <span className="flex-1 truncate">{r.name}</span>
+                <span className="text-xs text-gray-400">#{r.id}</span>
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
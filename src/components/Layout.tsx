@@ -1,6 +1,8 @@
 import { ReactNode, useState, useRef, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Stethoscope, Home, GitBranch, Activity, Database, Server, Settings, ChevronDown, Tag, LogIn, LogOut, User, Menu, Users } from 'lucide-react';
+import { Stethoscope, Home, GitBranch, Activity, Database, Server, Settings, ChevronDown, Tag, LogIn, LogOut, User, Menu, Users, BarChart3 } from 'lucide-react';
+import AcademicYearSelect from './AcademicYearSelect';
+import AsUserBanner, { AsUserNavButton } from './AsUserBanner';
 
 // 测试用户数据
 const TEST_USERS = [
@@ -63,11 +65,12 @@ const mainMenuItems = [
   { path: '/workflow', label: '工作流设计器', icon: GitBranch },
   { path: '/tags', label: '标签管理', icon: Tag },
   { path: '/users', label: '用户管理', icon: Users },
+  { path: '/cases/stats', label: '案件流转统计', icon: BarChart3 },
 ];
 
 export default function Layout({ children }: LayoutProps) {
   const location = useLocation();
-  const isWorkflowPage = location.pathname === '/workflow';
+  const isWorkflowPage = location.pathname.startsWith('/workflow');
   const [showMainMenu, setShowMainMenu] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [currentUser, setCurrentUser] = useState<typeof TEST_USERS[0] | null>(null);
@@ -215,6 +218,12 @@ export default function Layout({ children }: LayoutProps) {
               )}
             </div>
 
+            {/* As-User */}
+            <AsUserNavButton />
+
+            {/* 学年 */}
+            <AcademicYearSelect />
+
             {/* 分隔线 */}
             <div className="w-px h-6 bg-gray-300 mx-1" />
 
@@ -317,6 +326,9 @@ export default function Layout({ children }: LayoutProps) {
         </div>
       </header>
 
+      {/* As-User 提示 */}
+      <AsUserBanner />
+
       {/* Main Content */}
       <main className={isWorkflowPage ? 'flex-1' : 'flex-1 p-6'}>
         {children}
@@ -0,0 +1,192 @@
+import { memo, useMemo } from 'react';
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  MiniMap,
+  Handle,
+  Position,
+  MarkerType,
+  Node,
+  Edge,
+  NodeProps,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import { CheckCircle, Circle, CircleDot, SkipForward, XCircle, FlaskConical } from 'lucide-react';
+import classNames from 'classnames';
+import type {
+  DecisionTree,
+  DecisionNode,
+  DecisionNodeStatus,
+  Position as NodePosition,
+} from '../../types/workflow';
+
+// 节点状态样式
+export const decisionStatusConfig: Record<
+  DecisionNodeStatus,
+  { label: string; className: string; color: string; icon: React.ElementType }
+> = {
+  pending: { label: '未执行', className: 'bg-white border-gray-300 text-gray-500', color: '#9ca3af', icon: Circle },
+  executed: { label: '已执行', className: 'bg-green-50 border-green-500 text-green-800', color: '#22c55e', icon: CheckCircle },
+  current: { label: '当前节点', className: 'bg-blue-50 border-blue-500 text-blue-800 ring-4 ring-blue-200', color: '#3b82f6', icon: CircleDot },
+  skipped: { label: '已跳过', className: 'bg-gray-50 border-gray-300 border-dashed text-gray-400', color: '#d1d5db', icon: SkipForward },
+  failed: { label: '执行失败', className: 'bg-red-50 border-red-500 text-red-800', color: '#ef4444', icon: XCircle },
+  simulated: { label: '模拟执行', className: 'bg-amber-50 border-amber-500 text-amber-800', color: '#f59e0b', icon: FlaskConical },
+};
+
+type DecisionFlowNode = Node<{ node: DecisionNode }, 'decision'>;
+
+// 决策树节点
+const DecisionTreeNode = memo(({ data, selected }: NodeProps<DecisionFlowNode>) => {
+  const { node } = data;
+  const config = decisionStatusConfig[node.status] || decisionStatusConfig.pending;
+  const Icon = config.icon;
+
+  return (
+    <div
+      className={classNames(
+        'px-4 py-2 rounded-lg border-2 shadow-sm min-w-[140px] text-center',
+        config.className,
+        { 'outline outline-2 outline-offset-2 outline-blue-400': selected }
+      )}
+    >
+      <Handle type="target" position={Position.Top} className="w-2 h-2 !bg-gray-400" />
+      <div className="flex items-center justify-center gap-2">
+        <Icon size={14} />
+        <span className="font-medium text-sm">{node.name || node.id}</span>
+      </div>
+      <div className="text-xs opacity-70 mt-0.5">
+        {node.type}
+        {node.duration !== undefined && ` · ${node.duration}ms`}
+      </div>
+      <Handle type="source" position={Position.Bottom} className="w-2 h-2 !bg-gray-400" />
+    </div>
+  );
+});
+
+const nodeTypes = { decision: DecisionTreeNode };
+
+// 节点未携带坐标时按层级自动布局
+const LAYER_GAP_Y = 120;
+const NODE_GAP_X = 200;
+
+export function layoutDecisionTree(tree: DecisionTree): Record<string, NodePosition> {
+  const positions: Record<string, NodePosition> = {};
+  if (tree.nodes.every((n) => n.position)) {
+    tree.nodes.forEach((n) => {
+      positions[n.id] = n.position!;
+    });
+    return positions;
+  }
+
+  const incoming = new Map<string, number>();
+  const outgoing = new Map<string, string[]>();
+  tree.nodes.forEach((n) => {
+    incoming.set(n.id, 0);
+    outgoing.set(n.id, []);
+  });
+  tree.edges.forEach((e) => {
+    if (!incoming.has(e.target) || !outgoing.has(e.source)) return;
+    incoming.set(e.target, (incoming.get(e.target) || 0) + 1);
+    outgoing.get(e.source)!.push(e.target);
+  });
+
+  // BFS 分层，每个节点取首次访问到的层级
+  const depth = new Map<string, number>();
+  const queue = tree.nodes.filter((n) => incoming.get(n.id) === 0).map((n) => n.id);
+  if (queue.length === 0 && tree.nodes.length > 0) queue.push(tree.nodes[0].id);
+  queue.forEach((id) => depth.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of outgoing.get(id) || []) {
+      if (!depth.has(next)) {
+        depth.set(next, depth.get(id)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+
+  // 不可达节点放到最后一层
+  const maxDepth = Math.max(0, ...depth.values());
+  tree.nodes.forEach((n) => {
+    if (!depth.has(n.id)) depth.set(n.id, maxDepth + 1);
+  });
+
+  const layers = new Map<number, string[]>();
+  tree.nodes.forEach((n) => {
+    const d = depth.get(n.id)!;
+    layers.set(d, [...(layers.get(d) || []), n.id]);
+  });
+  layers.forEach((ids, d) => {
+    const offset = ((ids.length - 1) * NODE_GAP_X) / 2;
+    ids.forEach((id, i) => {
+      positions[id] = { x: i * NODE_GAP_X - offset, y: d * LAYER_GAP_Y };
+    });
+  });
+  return positions;
+}
+
+interface DecisionTreeCanvasProps {
+  tree: DecisionTree;
+  selectedNodeId?: string | null;
+  onSelectNode?: (nodeId: string | null) => void;
+}
+
+export default function DecisionTreeCanvas({ tree, selectedNodeId, onSelectNode }: DecisionTreeCanvasProps) {
+  const nodes = useMemo<DecisionFlowNode[]>(() => {
+    const positions = layoutDecisionTree(tree);
+    return tree.nodes.map((node) => ({
+      id: node.id,
+      type: 'decision',
+      position: positions[node.id],
+      data: { node },
+      selected: node.id === selectedNodeId,
+      draggable: false,
+      connectable: false,
+    }));
+  }, [tree, selectedNodeId]);
+
+  const edges = useMemo<Edge[]>(
+    () =>
+      tree.edges.map((edge) => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        type: 'smoothstep',
+        label: edge.label || edge.condition,
+        animated: edge.wasTaken,
+        style: edge.wasTaken
+          ? { stroke: '#22c55e', strokeWidth: 2.5 }
+          : { stroke: '#d1d5db', strokeWidth: 1.5, strokeDasharray: '6 4' },
+        markerEnd: {
+          type: MarkerType.ArrowClosed,
+          color: edge.wasTaken ? '#22c55e' : '#d1d5db',
+        },
+        labelStyle: { fill: edge.wasTaken ? '#15803d' : '#9ca3af', fontSize: 11 },
+      })),
+    [tree]
+  );
+
+  return (
+    <ReactFlow
+      nodes={nodes}
+      edges={edges}
+      nodeTypes={nodeTypes}
+      onNodeClick={(_, node) => onSelectNode?.(node.id)}
+      onPaneClick={() => onSelectNode?.(null)}
+      nodesDraggable={false}
+      nodesConnectable={false}
+      fitView
+    >
+      <Background gap={20} size={1} />
+      <Controls showInteractive={false} />
+      <MiniMap
+        nodeStrokeWidth={3}
+        nodeColor={(n) => decisionStatusConfig[(n.data as { node: DecisionNode }).node.status]?.color || '#9ca3af'}
+        pannable
+        zoomable
+        className="bg-white rounded shadow"
+      />
+    </ReactFlow>
+  );
+}
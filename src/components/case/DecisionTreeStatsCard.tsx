@@ -0,0 +1,64 @@
+import type { DecisionTreeStats } from '../../types/workflow';
+import { formatDuration } from '../../utils/decisionTreeStats';
+
+interface DecisionTreeStatsCardProps {
+  stats: DecisionTreeStats;
+  title?: string;
+}
+
+// 决策树统计摘要卡片
+export default function DecisionTreeStatsCard({ stats, title = '执行统计' }: DecisionTreeStatsCardProps) {
+  const percent = Math.round(stats.completionRate * 100);
+  const items = [
+    { label: '已执行', count: stats.executedNodes, color: 'text-green-600', bg: 'bg-green-100' },
+    { label: '待执行', count: stats.pendingNodes, color: 'text-blue-600', bg: 'bg-blue-100' },
+    { label: '跳过', count: stats.skippedNodes, color: 'text-gray-600', bg: 'bg-gray-100' },
+    { label: '失败', count: stats.failedNodes, color: 'text-red-600', bg: 'bg-red-100' },
+    { label: '模拟', count: stats.simulatedNodes, color: 'text-amber-600', bg: 'bg-amber-100' },
+  ];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="font-semibold text-gray-900 mb-3">{title}</h3>
+
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className="text-gray-500">完成率</span>
+        <span className="font-semibold text-gray-900">{percent}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
+        <div
+          className={`h-2 rounded-full transition-all ${stats.failedNodes > 0 ? 'bg-red-500' : 'bg-green-500'}`}
+          style={{ width: `${Math.min(percent, 100)}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-5 gap-1 mb-4">
+        {items.map((item) => (
+          <div key={item.label} className="text-center">
+            <div className={`inline-flex items-center justify-center w-8 h-8 rounded-full ${item.bg}`}>
+              <span className={`text-sm font-bold ${item.color}`}>{item.count}</span>
+            </div>
+            <div className="text-xs text-gray-500 mt-0.5">{item.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center text-sm">
+        <div className="bg-gray-50 rounded p-2">
+          <div className="font-semibold text-gray-900">{stats.totalNodes}</div>
+          <div className="text-xs text-gray-500">节点</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="font-semibold text-gray-900">
+            {stats.takenEdges}/{stats.totalEdges}
+          </div>
+          <div className="text-xs text-gray-500">已走连线</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="font-semibold text-gray-900">{formatDuration(stats.totalDurationMs)}</div>
+          <div className="text-xs text-gray-500">总耗时</div>
+        </div>
+      </div>
+    </div>
+  );
+}
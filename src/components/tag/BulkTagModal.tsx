@@ -0,0 +1,337 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, AlertCircle, RefreshCw, Play, Square, RotateCcw, CheckCircle, XCircle, MinusCircle } from 'lucide-react';
+import { assignUserTag, removeUserTag, getUserTags, queryAllUsersByTags, getErrorMessage } from '../../api/client';
+import { useTagStore } from '../../stores/tagStore';
+import { getSelectedAcademicYear } from '../../stores/academicYearStore';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import type { BulkTagAction, BulkTagTarget, BulkTagItemResult, BulkTagItemStatus } from '../../types/tag';
+
+// 同时进行的请求数
+const BULK_TAG_CONCURRENCY = 4;
+
+const actionLabels: Record<BulkTagAction, { label: string; description: string }> = {
+  assign: { label: '分配', description: '只给尚未拥有该标签的用户赋值' },
+  overwrite: { label: '覆盖', description: '所有用户都设置为新值，覆盖已有值' },
+  remove: { label: '移除', description: '移除用户的该标签' },
+};
+
+const statusIcons: Record<BulkTagItemStatus, { icon: React.ElementType; className: string; label: string }> = {
+  pending: { icon: RefreshCw, className: 'text-gray-300', label: '等待中' },
+  success: { icon: CheckCircle, className: 'text-green-500', label: '成功' },
+  skipped: { icon: MinusCircle, className: 'text-gray-400', label: '已跳过' },
+  failed: { icon: XCircle, className: 'text-red-500', label: '失败' },
+};
+
+// 一次执行使用的参数，重试时沿用，不受之后表单修改的影响
+interface BulkTagRunParams {
+  action: BulkTagAction;
+  tagName: string;
+  tagValue: string;
+  academicYear?: string;
+}
+
+interface BulkTagModalProps {
+  target: BulkTagTarget;
+  onClose: () => void;
+  onCompleted?: () => void;
+}
+
+// 批量分配 / 覆盖 / 移除标签
+export default function BulkTagModal({ target, onClose, onCompleted }: BulkTagModalProps) {
+  const { definitions, loadDefinitions } = useTagStore();
+  const [action, setAction] = useState<BulkTagAction>('assign');
+  const [tagName, setTagName] = useState('');
+  const [tagValue, setTagValue] = useState('');
+  const [academicYear, setAcademicYear] = useState(() => getSelectedAcademicYear());
+  const [results, setResults] = useState<BulkTagItemResult[]>([]);
+  const [lastRun, setLastRun] = useState<BulkTagRunParams | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  useEffect(() => {
+    if (definitions.length === 0) loadDefinitions();
+  }, [definitions.length, loadDefinitions]);
+
+  const selectedDef = definitions.find((d) => d.name === tagName);
+  const needsValue = action !== 'remove';
+  const canStart = !!tagName && (!needsValue || tagValue.trim() !== '') && !running && !resolving;
+
+  const processed = results.filter((r) => r.status !== 'pending').length;
+  const counts = results.reduce(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { pending: 0, success: 0, skipped: 0, failed: 0 } as Record<BulkTagItemStatus, number>
+  );
+
+  const applyToUser = async (userId: number, params: BulkTagRunParams): Promise<BulkTagItemStatus> => {
+    const { action, tagName, tagValue, academicYear: year } = params;
+    if (action === 'remove') {
+      await removeUserTag(userId, tagName, year);
+      return 'success';
+    }
+    if (action === 'assign') {
+      const existing = await getUserTags(userId, year);
+      if (tagName in existing) return 'skipped';
+    }
+    await assignUserTag(userId, { tag_name: tagName, tag_value: tagValue, academic_year: year });
+    return 'success';
+  };
+
+  const run = async (items: BulkTagItemResult[], params: BulkTagRunParams) => {
+    stopRef.current = false;
+    setRunning(true);
+    const ids = new Set(items.map((i) => i.userId));
+    setResults((prev) =>
+      prev.map((r) => (ids.has(r.userId) ? { ...r, status: 'pending' as const, error: undefined } : r))
+    );
+
+    await mapWithConcurrency(items, BULK_TAG_CONCURRENCY, (item) => applyToUser(item.userId, params), {
+      shouldStop: () => stopRef.current,
+      onSettled: (result, item) => {
+        setResults((prev) =>
+          prev.map((r) =>
+            r.userId !== item.userId
+              ? r
+              : result.ok
+                ? { ...r, status: result.value }
+                : { ...r, status: 'failed', error: getErrorMessage(result.error) }
+          )
+        );
+      },
+    });
+
+    setRunning(false);
+    onCompleted?.();
+  };
+
+  const handleStart = async () => {
+    setError(null);
+    const params: BulkTagRunParams = {
+      action,
+      tagName,
+      tagValue: tagValue.trim(),
+      academicYear: academicYear.trim() || undefined,
+    };
+    let items: BulkTagItemResult[];
+    if (target.type === 'users') {
+      items = target.users.map((u) => ({ userId: u.id, displayName: u.display_name, status: 'pending' }));
+    } else {
+      setResolving(true);
+      try {
+        // 条件按当前选中的学年匹配，与查询结果列表一致
+        const users = await queryAllUsersByTags(target.condition, getSelectedAcademicYear());
+        items = users.map((u) => ({ userId: u.user.id, displayName: u.user.display_name, status: 'pending' }));
+      } catch (err) {
+        setError(getErrorMessage(err, '获取目标用户失败'));
+        return;
+      } finally {
+        setResolving(false);
+      }
+    }
+    if (items.length === 0) {
+      setError('没有匹配的目标用户');
+      return;
+    }
+    setResults(items);
+    setLastRun(params);
+    await run(items, params);
+  };
+
+  // 停止后未执行的用户也一并重试，使用出错那次执行的参数
+  const handleRetryFailed = () => {
+    if (!lastRun) return;
+    run(
+      results.filter((r) => r.status === 'failed' || r.status === 'pending'),
+      lastRun
+    );
+  };
+
+  const targetDescription =
+    target.type === 'users' ? `已选择 ${target.users.length} 个用户` : '满足标签条件的所有用户';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">批量标签操作</h3>
+            <p className="text-sm text-gray-500">{targetDescription}</p>
+          </div>
+          <button onClick={onClose} disabled={running} className="text-gray-400 hover:text-gray-600 disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 text-red-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {/* 操作设置 */}
+          <fieldset disabled={running || resolving} className="space-y-3">
+            <div className="flex gap-2">
+              {(Object.keys(actionLabels) as BulkTagAction[]).map((a) => (
+                <button
+                  key={a}
+                  type="button"
+                  onClick={() => setAction(a)}
+                  className={`flex-1 px-3 py-2 rounded-lg border text-sm ${
+                    action === a ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {actionLabels[a].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">{actionLabels[action].description}</p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">标签</label>
+                <select
+                  value={tagName}
+                  onChange={(e) => {
+                    setTagName(e.target.value);
+                    setTagValue('');
+                  }}
+                  className="w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">选择标签...</option>
+                  {definitions.map((d) => (
+                    <option key={d.name} value={d.name}>
+                      {d.display_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">学年</label>
+                <input
+                  type="text"
+                  value={academicYear}
+                  onChange={(e) => setAcademicYear(e.target.value)}
+                  placeholder="如 2024-2025"
+                  className="w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            {needsValue && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">标签值</label>
+                {selectedDef?.enum_values && selectedDef.enum_values.length > 0 ? (
+                  <select
+                    value={tagValue}
+                    onChange={(e) => setTagValue(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">选择值...</option>
+                    {selectedDef.enum_values.map((v) => (
+                      <option key={v} value={v}>
+                        {v}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={selectedDef?.data_type === 'number' ? 'number' : 'text'}
+                    value={tagValue}
+                    onChange={(e) => setTagValue(e.target.value)}
+                    placeholder="输入标签值"
+                    className="w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+              </div>
+            )}
+          </fieldset>
+
+          {/* 进度 */}
+          {results.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between text-sm text-gray-600 mb-1">
+                <span>
+                  {processed}/{results.length}
+                </span>
+                <span className="text-xs">
+                  <span className="text-green-600">成功 {counts.success}</span>
+                  {counts.skipped > 0 && <span className="ml-2 text-gray-500">跳过 {counts.skipped}</span>}
+                  {counts.failed > 0 && <span className="ml-2 text-red-600">失败 {counts.failed}</span>}
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${counts.failed > 0 ? 'bg-amber-500' : 'bg-blue-600'}`}
+                  style={{ width: `${(processed / results.length) * 100}%` }}
+                />
+              </div>
+              <div className="mt-3 max-h-60 overflow-y-auto border rounded-lg divide-y">
+                {results.map((r) => {
+                  const status = statusIcons[r.status];
+                  return (
+                    <div key={r.userId} className="px-3 py-1.5 flex items-center gap-2 text-sm">
+                      <span title={status.label}>
+                        <status.icon
+                          className={`w-4 h-4 ${status.className} ${r.status === 'pending' && running ? 'animate-spin' : ''}`}
+                        />
+                      </span>
+                      <span className="flex-1 truncate">{r.displayName}</span>
+                      {r.error && (
+                        <span className="text-xs text-red-600 truncate max-w-[50%]" title={r.error}>
+                          {r.error}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t flex justify-end gap-2">
+          {running ? (
+            <button
+              onClick={() => (stopRef.current = true)}
+              className="flex items-center gap-1 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg text-sm"
+            >
+              <Square className="w-4 h-4" />
+              停止
+            </button>
+          ) : (
+            <>
+              {counts.failed + counts.pending > 0 && lastRun && (
+                <button
+                  onClick={handleRetryFailed}
+                  title={`按原操作重试：${actionLabels[lastRun.action].label} ${lastRun.tagName}${
+                    lastRun.action === 'remove' ? '' : ` = ${lastRun.tagValue}`
+                  }${lastRun.academicYear ? `（${lastRun.academicYear}）` : ''}`}
+                  className="flex items-center gap-1 px-4 py-2 text-amber-700 hover:bg-amber-50 rounded-lg text-sm"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  重试失败项
+                </button>
+              )}
+              <button onClick={onClose} className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg text-sm">
+                关闭
+              </button>
+              <button
+                onClick={handleStart}
+                disabled={!canStart}
+                className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {resolving ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                {results.length > 0 ? '重新执行' : '开始'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useEffect, useState } from 'react';
+import { Plus, X, FolderPlus } from 'lucide-react';
+import { getTagValues } from '../../api/client';
+import { useTagStore } from '../../stores/tagStore';
+import { useAcademicYearStore } from '../../stores/academicYearStore';
+import {
+  tagLogicLabels,
+  tagOperatorLabels,
+  operatorsForDataType,
+  isListOperator,
+  isUnaryOperator,
+  isGroupCondition,
+  createRule,
+  createGroup,
+  coerceValueForOperator,
+} from '../../utils/tagCondition';
+import type { TagCondition, TagDefinition, TagLogic, TagOperator } from '../../types/tag';
+
+// 非枚举标签的已有取值，按学年和标签缓存
+const tagValuesCache = new Map<string, Promise<string[]>>();
+
+function useTagValueSuggestions(def: TagDefinition | undefined): string[] {
+  const academicYear = useAcademicYearStore((s) => s.selectedYear);
+  const [values, setValues] = useState<string[]>([]);
+
+  useEffect(() => {
+    setValues([]);
+    if (!def || def.data_type === 'enum') return;
+    const key = `${academicYear}:${def.id}`;
+    let cached = tagValuesCache.get(key);
+    if (!cached) {
+      cached = getTagValues(def.id, academicYear).catch(() => {
+        tagValuesCache.delete(key);
+        return [];
+      });
+      tagValuesCache.set(key, cached);
+    }
+    let cancelled = false;
+    cached.then((result) => {
+      if (!cancelled) setValues(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [def, academicYear]);
+
+  return def?.data_type === 'enum' ? def.enum_values || [] : values;
+}
+
+const controlClass = 'px-2 py-1.5 border rounded text-xs bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// 多值输入（in / not_in）
+function ListValueInput({
+  value,
+  options,
+  restricted,
+  onChange,
+}: {
+  value: string[];
+  options: string[];
+  restricted: boolean;
+  onChange: (value: string[]) => void;
+}) {
+  const [draft, setDraft] = useState('');
+  const remaining = options.filter((o) => !value.includes(o));
+
+  const add = (item: string) => {
+    const trimmed = item.trim();
+    if (trimmed && !value.includes(trimmed)) onChange([...value, trimmed]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex-1 min-w-[8rem] flex flex-wrap items-center gap-1 px-1.5 py-1 border rounded bg-white">
+      {value.map((item) => (
+        <span key={item} className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-xs">
+          {item}
+          <button onClick={() => onChange(value.filter((v) => v !== item))} className="hover:text-red-500">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      {restricted ? (
+        <select
+          value=""
+          onChange={(e) => e.target.value && add(e.target.value)}
+          className="flex-1 min-w-[5rem] text-xs outline-none bg-transparent"
+        >
+          <option value="">添加...</option>
+          {remaining.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <SuggestionInput
+          value={draft}
+          suggestions={remaining}
+          onChange={setDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              add(draft);
+            }
+          }}
+          onBlur={() => draft && add(draft)}
+          placeholder="输入后回车"
+          className="flex-1 min-w-[5rem] text-xs outline-none bg-transparent"
+        />
+      )}
+    </div>
+  );
+}
+
+// 带候选值的文本输入
+function SuggestionInput({
+  suggestions,
+  onChange,
+  ...props
+}: Omit<React.InputHTMLAttributes<HTMLInputElement>, 'onChange' | 'list'> & {
+  suggestions: string[];
+  onChange: (value: string) => void;
+}) {
+  const [listId] = useState(() => `tag-values-${Math.random().toString(36).slice(2, 9)}`);
+  return (
+    <>
+      <input {...props} list={listId} onChange={(e) => onChange(e.target.value)} />
+      <datalist id={listId}>
+        {suggestions.map((s) => (
+          <option key={s} value={s} />
+        ))}
+      </datalist>
+    </>
+  );
+}
+
+function RuleEditor({
+  rule,
+  definitions,
+  onChange,
+  onRemove,
+}: {
+  rule: TagCondition;
+  definitions: TagDefinition[];
+  onChange: (rule: TagCondition) => void;
+  onRemove: () => void;
+}) {
+  const def = definitions.find((d) => d.name === rule.tag);
+  const suggestions = useTagValueSuggestions(def);
+  const operators = operatorsForDataType(def?.data_type);
+  const operator = rule.operator || '==';
+
+  const handleTagChange = (tag: string) => {
+    const nextDef = definitions.find((d) => d.name === tag);
+    const nextOperators = operatorsForDataType(nextDef?.data_type);
+    const nextOperator = nextOperators.includes(operator) ? operator : nextOperators[0];
+    onChange({
+      tag,
+      operator: nextOperator,
+      value: coerceValueForOperator(isListOperator(nextOperator) ? [] : '', nextOperator, nextDef?.data_type),
+    });
+  };
+
+  const handleOperatorChange = (next: TagOperator) => {
+    onChange({ ...rule, operator: next, value: coerceValueForOperator(rule.value, next, def?.data_type) });
+  };
+
+  const handleScalarChange = (raw: string) => {
+    onChange({ ...rule, value: coerceValueForOperator(raw, operator, def?.data_type) });
+  };
+
+  const renderValue = () => {
+    if (isUnaryOperator(operator)) return null;
+    if (isListOperator(operator)) {
+      return (
+        <ListValueInput
+          value={Array.isArray(rule.value) ? rule.value : []}
+          options={suggestions}
+          restricted={def?.data_type === 'enum'}
+          onChange={(value) => onChange({ ...rule, value })}
+        />
+      );
+    }
+    const scalar = rule.value === undefined || Array.isArray(rule.value) ? '' : String(rule.value);
+    if (def?.data_type === 'enum') {
+      return (
+        <select
+          value={scalar}
+          onChange={(e) => handleScalarChange(e.target.value)}
+          className={`flex-1 min-w-[6rem] ${controlClass}`}
+        >
+          <option value="">选择值</option>
+          {suggestions.map((v) => (
+            <option key={v} value={v}>
+              {v}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <SuggestionInput
+        type={def?.data_type === 'number' ? 'number' : 'text'}
+        value={scalar}
+        suggestions={suggestions}
+        onChange={handleScalarChange}
+        placeholder="值"
+        className={`flex-1 min-w-[6rem] ${controlClass}`}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <select value={rule.tag || ''} onChange={(e) => handleTagChange(e.target.value)} className={`w-28 ${controlClass}`}>
+        <option value="">选择标签</option>
+        {definitions.map((d) => (
+          <option key={d.name} value={d.name}>
+            {d.display_name}
+          </option>
+        ))}
+        {rule.tag && !def && <option value={rule.tag}>{rule.tag}（未定义）</option>}
+      </select>
+      <select
+        value={operator}
+        onChange={(e) => handleOperatorChange(e.target.value as TagOperator)}
+        className={`w-24 ${controlClass}`}
+      >
+        {operators.map((op) => (
+          <option key={op} value={op}>
+            {tagOperatorLabels[op]}
+          </option>
+        ))}
+        {!operators.includes(operator) && <option value={operator}>{tagOperatorLabels[operator]}</option>}
+      </select>
+      {renderValue()}
+      <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-500" title="删除条件">
+        <X size={12} />
+      </button>
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  definitions,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: TagCondition;
+  definitions: TagDefinition[];
+  depth: number;
+  onChange: (group: TagCondition) => void;
+  onRemove?: () => void;
+}) {
+  const children = group.conditions || [];
+  const logic = group.logic || 'AND';
+  // NOT 组只对一个子条件取反
+  const canAdd = logic !== 'NOT' || children.length === 0;
+
+  const updateChild = (index: number, child: TagCondition) =>
+    onChange({ ...group, conditions: children.map((c, i) => (i === index ? child : c)) });
+  const removeChild = (index: number) => onChange({ ...group, conditions: children.filter((_, i) => i !== index) });
+  const addChild = (child: TagCondition) => onChange({ ...group, conditions: [...children, child] });
+
+  const handleLogicChange = (next: TagLogic) => {
+    // 切换到 NOT 时多个子条件合并成一个 AND 组
+    if (next === 'NOT' && children.length > 1) {
+      onChange({ logic: 'NOT', conditions: [{ logic: 'AND', conditions: children }] });
+      return;
+    }
+    onChange({ ...group, logic: next });
+  };
+
+  return (
+    <div className={`rounded border p-2 space-y-2 ${depth % 2 === 0 ? 'bg-gray-50 border-gray-200' : 'bg-white border-blue-100'}`}>
+      <div className="flex items-center gap-2">
+        <select
+          value={logic}
+          onChange={(e) => handleLogicChange(e.target.value as TagLogic)}
+          className={`font-medium ${controlClass}`}
+        >
+          {(Object.keys(tagLogicLabels) as TagLogic[]).map((l) => (
+            <option key={l} value={l}>
+              {l} · {tagLogicLabels[l]}
+            </option>
+          ))}
+        </select>
+        <span className="flex-1" />
+        {onRemove && (
+          <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-500" title="删除条件组">
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      {children.length === 0 && <p className="text-xs text-gray-400">尚未添加条件</p>}
+      {children.map((child, index) =>
+        isGroupCondition(child) ? (
+          <GroupEditor
+            key={index}
+            group={child}
+            definitions={definitions}
+            depth={depth + 1}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <RuleEditor
+            key={index}
+            rule={child}
+            definitions={definitions}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      {canAdd && (
+        <div className="flex items-center gap-3">
+          <button onClick={() => addChild(createRule())} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700">
+            <Plus size={12} />
+            添加条件
+          </button>
+          <button onClick={() => addChild(createGroup())} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700">
+            <FolderPlus size={12} />
+            添加条件组
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TagConditionBuilderProps {
+  value: TagCondition | undefined;
+  onChange: (condition: TagCondition) => void;
+}
+
+// 标签条件可视化编辑器：支持 AND / OR / NOT 嵌套
+export default function TagConditionBuilder({ value, onChange }: TagConditionBuilderProps) {
+  const { definitions, loadDefinitions } = useTagStore();
+
+  useEffect(() => {
+    if (definitions.length === 0) loadDefinitions();
+  }, [definitions.length, loadDefinitions]);
+
+  // 根节点始终是条件组；单条规则包一层 AND
+  const root = !value ? createGroup() : isGroupCondition(value) ? value : { logic: 'AND' as const, conditions: [value] };
+
+  return <GroupEditor group={root} definitions={definitions} depth={0} onChange={onChange} />;
+}
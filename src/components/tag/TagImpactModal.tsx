@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X, AlertCircle, AlertTriangle, RefreshCw, GitBranch, Users, ArrowRight } from 'lucide-react';
+import {
+  getTagValues,
+  listUsersByTag,
+  listDrafts,
+  getDraft,
+  assignUserTag,
+  getErrorMessage,
+} from '../../api/client';
+import { useTagStore } from '../../stores/tagStore';
+import { useAcademicYearStore } from '../../stores/academicYearStore';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { diffEnumValues, findTagReferencesInDesign } from '../../utils/tagImpact';
+import { selectableAcademicYears } from '../../utils/academicYear';
+import type {
+  TagDefinition,
+  UpdateTagDefRequest,
+  TagDraftImpact,
+  TagValueUsage,
+  TagValueMigration,
+} from '../../types/tag';
+
+const IMPACT_CONCURRENCY = 4;
+const MIGRATION_PAGE_SIZE = 100;
+
+export type TagSchemaChange = { type: 'update'; data: UpdateTagDefRequest } | { type: 'delete' };
+
+interface TagImpactModalProps {
+  tag: TagDefinition;
+  change: TagSchemaChange;
+  onClose: () => void;
+}
+
+// 拉取持有某个值的全部用户 ID；再按返回的标签值过滤一遍，后端没按值筛选时也不会改到其他用户
+async function listUserIdsWithValue(tag: TagDefinition, tagValue: string, academicYear: string): Promise<number[]> {
+  const ids: number[] = [];
+  let fetched = 0;
+  for (let page = 1; ; page += 1) {
+    const res = await listUsersByTag(tag.id, { tagValue, academicYear, page, limit: MIGRATION_PAGE_SIZE });
+    fetched += res.users.length;
+    ids.push(...res.users.filter((u) => u.tags[tag.name] === tagValue).map((u) => u.user.id));
+    if (res.users.length < MIGRATION_PAGE_SIZE || fetched >= res.total) break;
+  }
+  return ids;
+}
+
+// 2024-2025 学年 12 人、2023-2024 学年 3 人
+const formatYearCounts = (byYear: Record<string, number>) =>
+  Object.entries(byYear)
+    .map(([year, count]) => `${year} 学年 ${count} 人`)
+    .join('、');
+
+// 修改枚举值或删除标签前的影响分析，支持把移除的值迁移到新值
+export default function TagImpactModal({ tag, change, onClose }: TagImpactModalProps) {
+  const { updateDefinition, deleteDefinition } = useTagStore();
+  const currentYear = useAcademicYearStore((s) => s.currentYear);
+  // 标签定义不分学年，影响分析和迁移覆盖所有可选学年
+  const years = useMemo(() => selectableAcademicYears(currentYear), [currentYear]);
+  const [analyzing, setAnalyzing] = useState(true);
+  const [usage, setUsage] = useState<TagValueUsage[]>([]);
+  const [deleteUsage, setDeleteUsage] = useState<Record<string, number>>({});
+  const [drafts, setDrafts] = useState<TagDraftImpact[]>([]);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [migration, setMigration] = useState<TagValueMigration>({});
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDelete = change.type === 'delete';
+  const newValues = change.type === 'update' ? change.data.enum_values || [] : [];
+  const removedValues = useMemo(
+    () => (change.type === 'update' ? diffEnumValues(tag.enum_values, change.data.enum_values).removed : []),
+    [tag.enum_values, change]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const analyzeUsers = async () => {
+      if (isDelete) {
+        const totals = await Promise.all(
+          years.map(async (year) => {
+            const res = await listUsersByTag(tag.id, { academicYear: year, limit: 1 });
+            return [year, res.total] as const;
+          })
+        );
+        if (!cancelled) setDeleteUsage(Object.fromEntries(totals.filter(([, total]) => total > 0)));
+        return;
+      }
+      // 每个学年：先取在用的值，再统计其中被移除的值
+      const counts = await Promise.all(
+        years.map(async (year) => {
+          const inUse = new Set(await getTagValues(tag.id, year));
+          return Promise.all(
+            removedValues
+              .filter((value) => inUse.has(value))
+              .map(async (value) => {
+                const res = await listUsersByTag(tag.id, { tagValue: value, academicYear: year, limit: 1 });
+                return { year, value, userCount: res.total };
+              })
+          );
+        })
+      );
+      const byValue = new Map<string, TagValueUsage>();
+      for (const { year, value, userCount } of counts.flat()) {
+        if (userCount === 0) continue;
+        const entry = byValue.get(value) || { value, userCount: 0, byYear: {} };
+        entry.userCount += userCount;
+        entry.byYear[year] = userCount;
+        byValue.set(value, entry);
+      }
+      if (!cancelled) setUsage(removedValues.flatMap((value) => byValue.get(value) || []));
+    };
+
+    const analyzeDrafts = async () => {
+      try {
+        const summaries = await listDrafts();
+        const results = await mapWithConcurrency(summaries, IMPACT_CONCURRENCY, (d) => getDraft(d.id));
+        const impacts = results.flatMap((result) => {
+          if (!result.ok) return [];
+          const design = result.value;
+          const references = findTagReferencesInDesign(design, tag.name);
+          return references.length > 0 ? [{ draftId: design.id, draftName: design.name, references }] : [];
+        });
+        const failed = results.filter((r) => !r.ok).length;
+        if (!cancelled) {
+          setDrafts(impacts);
+          if (failed > 0) setDraftError(`${failed} 个草稿读取失败，未纳入分析`);
+        }
+      } catch (err) {
+        if (!cancelled) setDraftError(getErrorMessage(err, '读取工作流草稿失败'));
+      }
+    };
+
+    Promise.all([analyzeUsers(), analyzeDrafts()])
+      .catch((err) => !cancelled && setError(getErrorMessage(err, '影响分析失败')))
+      .finally(() => !cancelled && setAnalyzing(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tag.id, tag.name, isDelete, removedValues, years]);
+
+  const runMigration = async () => {
+    const steps = Object.entries(migration).filter((entry): entry is [string, string] => !!entry[1]);
+    if (steps.length === 0) return;
+
+    // 迁移目标可能是新增的枚举值，先临时放开新旧值的并集
+    const oldValues = tag.enum_values || [];
+    const widened = steps.some(([, to]) => !oldValues.includes(to));
+    if (widened) {
+      await updateDefinition(tag.id, { enum_values: [...new Set([...oldValues, ...newValues])] });
+    }
+
+    for (const [from, to] of steps) {
+      const yearsWithValue = Object.keys(usage.find((u) => u.value === from)?.byYear || {});
+      for (const year of yearsWithValue) {
+        setProgress(`正在查找 ${year} 学年「${from}」的用户...`);
+        const userIds = await listUserIdsWithValue(tag, from, year);
+        let done = 0;
+        const results = await mapWithConcurrency(
+          userIds,
+          IMPACT_CONCURRENCY,
+          (userId) => assignUserTag(userId, { tag_name: tag.name, tag_value: to, academic_year: year }),
+          {
+            onSettled: () => {
+              done += 1;
+              setProgress(`${year} 学年「${from}」→「${to}」 ${done}/${userIds.length}`);
+            },
+          }
+        );
+        const failed = results.filter((r) => !r.ok).length;
+        if (failed > 0) {
+          // 已迁移的用户可能持有新值，此时不能退回旧的枚举
+          throw new Error(
+            `${year} 学年「${from}」有 ${failed} 个用户迁移失败，可重试。` +
+              (widened ? '标签定义暂时同时包含新旧取值，迁移完成后才会保存为新的取值' : '标签定义未修改')
+          );
+        }
+      }
+    }
+  };
+
+  const handleConfirm = async () => {
+    setError(null);
+    try {
+      if (change.type === 'delete') {
+        setProgress('正在删除...');
+        await deleteDefinition(tag.id);
+      } else {
+        await runMigration();
+        setProgress('正在保存标签定义...');
+        await updateDefinition(tag.id, change.data);
+      }
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, '操作失败'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const totalUsers = Object.values(deleteUsage).reduce((sum, count) => sum + count, 0);
+  const affectedUsers = isDelete ? totalUsers : usage.reduce((sum, u) => sum + u.userCount, 0);
+  const busy = analyzing || progress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {isDelete ? '删除标签' : '确认标签修改'}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {tag.display_name} ({tag.name}) · 统计 {years[years.length - 1]} 至 {years[0]} 学年
+            </p>
+          </div>
+          <button onClick={onClose} disabled={progress !== null} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 text-red-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {analyzing ? (
+            <div className="text-center py-8">
+              <RefreshCw className="w-6 h-6 animate-spin mx-auto text-gray-400" />
+              <p className="mt-2 text-sm text-gray-500">正在分析影响范围...</p>
+            </div>
+          ) : (
+            <>
+              {/* 用户影响 */}
+              <section>
+                <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                  <Users className="w-4 h-4" />
+                  受影响的用户
+                </h4>
+                {isDelete ? (
+                  <p className={`text-sm ${totalUsers > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                    {totalUsers > 0
+                      ? `共 ${totalUsers} 个分配（${formatYearCounts(deleteUsage)}），删除后会一并移除`
+                      : '统计范围内没有用户持有该标签'}
+                  </p>
+                ) : usage.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    移除的值（{removedValues.join('、')}）在统计范围内没有用户使用
+                  </p>
+                ) : (
+                  <div className="border rounded-lg divide-y">
+                    {usage.map((u) => (
+                      <div key={u.value} className="px-3 py-2 flex items-center gap-2 text-sm">
+                        <span className="font-medium text-gray-800">{u.value}</span>
+                        <span className="text-xs text-gray-500" title={formatYearCounts(u.byYear)}>
+                          {u.userCount} 个用户（{Object.keys(u.byYear).length} 个学年）
+                        </span>
+                        <ArrowRight className="w-4 h-4 text-gray-400 ml-auto" />
+                        <select
+                          value={migration[u.value] || ''}
+                          onChange={(e) => setMigration((prev) => ({ ...prev, [u.value]: e.target.value || null }))}
+                          disabled={busy}
+                          className="w-36 px-2 py-1 border rounded text-xs"
+                        >
+                          <option value="">保留原值</option>
+                          {newValues.map((v) => (
+                            <option key={v} value={v}>
+                              迁移为 {v}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              {/* 工作流引用 */}
+              <section>
+                <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                  <GitBranch className="w-4 h-4" />
+                  引用该标签的工作流草稿
+                </h4>
+                {draftError && <p className="mb-2 text-xs text-amber-600">{draftError}</p>}
+                {drafts.length === 0 ? (
+                  <p className="text-sm text-gray-500">没有草稿引用该标签</p>
+                ) : (
+                  <div className="border rounded-lg divide-y max-h-48 overflow-y-auto">
+                    {drafts.map((draft) => (
+                      <div key={draft.draftId} className="px-3 py-2">
+                        <a
+                          href={`/workflow/${draft.draftId}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-sm font-medium text-blue-600 hover:underline"
+                        >
+                          {draft.draftName || draft.draftId}
+                        </a>
+                        {draft.references.map((ref, i) => {
+                          const broken = isDelete || ref.values.some((v) => removedValues.includes(v));
+                          return (
+                            <div
+                              key={i}
+                              className={`mt-0.5 text-xs flex items-center gap-1 ${broken ? 'text-red-600' : 'text-gray-500'}`}
+                            >
+                              {broken && <AlertTriangle className="w-3 h-3 flex-shrink-0" />}
+                              <span className="truncate">{ref.location}</span>
+                              {ref.values.length > 0 && <span className="flex-shrink-0">（{ref.values.join('、')}）</span>}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t flex items-center justify-end gap-3">
+          {progress && <span className="mr-auto text-xs text-gray-500">{progress}</span>}
+          <button
+            onClick={onClose}
+            disabled={progress !== null}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={busy}
+            className={`px-4 py-2 text-white rounded-lg disabled:opacity-50 ${
+              isDelete ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isDelete
+              ? affectedUsers > 0 || drafts.length > 0
+                ? '仍然删除'
+                : '删除'
+              : Object.values(migration).some(Boolean)
+                ? '迁移并保存'
+                : '保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { Play, AlertCircle } from 'lucide-react';
+import { parseTagQuery, printTagQuery, TagQuerySyntaxError } from '../../utils/tagQuery';
+import type { TagCondition } from '../../types/tag';
+
+interface TagQueryInputProps {
+  value: TagCondition | undefined;
+  onChange: (condition: TagCondition) => void;
+}
+
+interface QueryError {
+  message: string;
+  position: number;
+  length: number;
+}
+
+// 文本查询框：与可视化编辑器共享同一个条件，回车或点击查询时解析
+export default function TagQueryInput({ value, onChange }: TagQueryInputProps) {
+  const [text, setText] = useState(() => printTagQuery(value));
+  const [error, setError] = useState<QueryError | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const lastParsed = useRef<TagCondition | undefined>(value);
+
+  // 条件在外部（可视化编辑器）修改后同步文本
+  useEffect(() => {
+    if (value === lastParsed.current) return;
+    lastParsed.current = value;
+    setText(printTagQuery(value));
+    setError(null);
+  }, [value]);
+
+  const submit = () => {
+    try {
+      const condition = parseTagQuery(text);
+      lastParsed.current = condition;
+      setError(null);
+      setText(printTagQuery(condition));
+      onChange(condition);
+    } catch (err) {
+      if (!(err instanceof TagQuerySyntaxError)) throw err;
+      setError({ message: err.message, position: err.position, length: err.length });
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(err.position, err.position + err.length);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder='grade == "2024" AND (department in ["CS", "EE"] OR NOT exists(class_name))'
+          spellCheck={false}
+          className={`flex-1 px-3 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+            error ? 'border-red-400' : ''
+          }`}
+        />
+        <button
+          onClick={submit}
+          disabled={!text.trim()}
+          className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          Query
+        </button>
+      </div>
+      {error && (
+        <div className="mt-2 text-sm text-red-600">
+          <pre className="font-mono text-xs text-gray-600 overflow-x-auto">
+            {text}
+            {'\n'}
+            <span className="text-red-600">
+              {' '.repeat(error.position)}
+              {'^'.repeat(error.length)}
+            </span>
+          </pre>
+          <span className="flex items-center gap-1 mt-1">
+            <AlertCircle className="w-4 h-4" />
+            第 {error.position + 1} 列：{error.message}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
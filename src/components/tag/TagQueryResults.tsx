@@ -0,0 +1,138 @@
+import { useEffect, useMemo } from 'react';
+import { Users, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useTagStore } from '../../stores/tagStore';
+import { useUserStore } from '../../stores/userStore';
+import { useAcademicYearStore } from '../../stores/academicYearStore';
+import { isCompleteCondition } from '../../utils/tagCondition';
+import { filterUsersByTagCondition, findTagConditionMismatches } from '../../utils/tagEvaluator';
+import type { TagCondition, UserWithTags } from '../../types/tag';
+
+interface TagQueryResultsProps {
+  condition: TagCondition | undefined;
+  pageSize?: number;
+}
+
+// 标签条件查询结果：条件变化后自动查询，分页展示匹配用户
+export default function TagQueryResults({ condition, pageSize = 10 }: TagQueryResultsProps) {
+  const { definitions, queryResults, queryTotal, queryPage, queryLimit, queryLoading, queryError, queryByTags } =
+    useTagStore();
+  const loadedUsers = useUserStore((s) => s.items);
+  const academicYear = useAcademicYearStore((s) => s.selectedYear);
+  const complete = !!condition && isCompleteCondition(condition);
+  // 条件对象每次编辑都会重建，按内容生成稳定的查询条件，内容不变时不重新查询
+  const conditionKey = complete ? JSON.stringify(condition) : '';
+  const queryCondition = useMemo(
+    () => (conditionKey ? (JSON.parse(conditionKey) as TagCondition) : null),
+    [conditionKey]
+  );
+
+  useEffect(() => {
+    if (!queryCondition) return;
+    const timer = setTimeout(() => queryByTags(queryCondition, 1, pageSize, academicYear), 400);
+    return () => clearTimeout(timer);
+  }, [queryCondition, pageSize, academicYear, queryByTags]);
+
+  if (!complete) {
+    return <p className="text-sm text-gray-400">补全所有条件后显示匹配的用户</p>;
+  }
+
+  // 后端查询失败时，对已加载的用户（用户列表当前页和上一次的查询结果）做本地预览
+  const localPreview = queryError !== null && !queryLoading;
+  const candidates = new Map<number, UserWithTags>();
+  if (localPreview) {
+    queryResults.forEach((item) => candidates.set(item.user.id, item));
+    loadedUsers.forEach((item) => item.tags && candidates.set(item.user.id, { user: item.user, tags: item.tags }));
+  }
+  const results = localPreview
+    ? filterUsersByTagCondition([...candidates.values()], condition!, definitions)
+    : queryResults;
+  const total = localPreview ? results.length : queryTotal;
+
+  const totalPages = localPreview ? 1 : Math.max(1, Math.ceil(queryTotal / queryLimit));
+  // 本地求值核对后端返回的结果
+  const mismatchIds = new Set(
+    localPreview ? [] : findTagConditionMismatches(condition!, queryResults, definitions).map((item) => item.user.id)
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Users className="w-4 h-4" />
+          {localPreview ? `本地预览匹配 ${total} 个用户` : `匹配 ${total} 个用户`}
+          {queryLoading && <RefreshCw className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+        </span>
+        {totalPages > 1 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => queryByTags(condition!, queryPage - 1, pageSize, academicYear)}
+              disabled={queryPage <= 1 || queryLoading}
+              className="px-3 py-1 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              上一页
+            </button>
+            <span className="text-sm text-gray-500">
+              {queryPage}/{totalPages}
+            </span>
+            <button
+              onClick={() => queryByTags(condition!, queryPage + 1, pageSize, academicYear)}
+              disabled={queryPage >= totalPages || queryLoading}
+              className="px-3 py-1 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              下一页
+            </button>
+          </div>
+        )}
+      </div>
+
+      {localPreview && (
+        <div className="mb-2 px-3 py-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs rounded flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          后端查询失败（{queryError}），以下仅是对已加载的 {candidates.size} 个用户的本地预览
+        </div>
+      )}
+
+      {!queryLoading && mismatchIds.size > 0 && (
+        <div className="mb-2 px-3 py-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs rounded flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          本页有 {mismatchIds.size} 个用户按本地求值不满足条件
+        </div>
+      )}
+
+      {results.length === 0 ? (
+        <p className="text-sm text-gray-400 py-4 text-center">没有满足条件的用户</p>
+      ) : (
+        <div className="divide-y border rounded-lg bg-white">
+          {results.map((item) => (
+            <div
+              key={item.user.id}
+              className={`px-4 py-2 flex items-center justify-between ${mismatchIds.has(item.user.id) ? 'bg-amber-50' : ''}`}
+            >
+              <div>
+                <div className="text-sm font-medium text-gray-900 flex items-center gap-1">
+                  {item.user.display_name}
+                  {mismatchIds.has(item.user.id) && (
+                    <span title="本地求值不满足条件">
+                      <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {item.user.username}
+                  {item.user.department && ` - ${item.user.department}`}
+                </div>
+              </div>
+              <div className="flex flex-wrap justify-end gap-1 max-w-[60%]">
+                {Object.entries(item.tags).map(([name, value]) => (
+                  <span key={name} className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded">
+                    {name}: {value}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
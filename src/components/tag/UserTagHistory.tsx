@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { History, RefreshCw } from 'lucide-react';
+import { getUserTags } from '../../api/client';
+import { recentAcademicYears } from '../../utils/academicYear';
+import type { TagDefinition } from '../../types/tag';
+
+interface UserTagHistoryProps {
+  userId: number;
+  // 最新的学年，往前展示 years 个学年
+  latestYear: string;
+  definitions: TagDefinition[];
+  years?: number;
+  // 变化后重新加载
+  refreshKey?: unknown;
+}
+
+// 用户标签历年对照表
+export default function UserTagHistory({
+  userId,
+  latestYear,
+  definitions,
+  years = 4,
+  refreshKey,
+}: UserTagHistoryProps) {
+  const [history, setHistory] = useState<{ year: string; tags: Record<string, string> | null }[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const yearList = recentAcademicYears(latestYear, years);
+    setLoading(true);
+    Promise.allSettled(yearList.map((year) => getUserTags(userId, year))).then((results) => {
+      if (cancelled) return;
+      setHistory(
+        yearList.map((year, i) => {
+          const result = results[i];
+          return { year, tags: result.status === 'fulfilled' ? result.value : null };
+        })
+      );
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, latestYear, years, refreshKey]);
+
+  const defMap = new Map(definitions.map((d) => [d.name, d]));
+  const tagNames = [...new Set(history.flatMap((h) => Object.keys(h.tags || {})))];
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+        <History className="w-4 h-4" />
+        历年标签
+        {loading && <RefreshCw className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+      </h4>
+      {!loading && tagNames.length === 0 ? (
+        <p className="text-sm text-gray-400">近 {years} 个学年都没有标签</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium text-gray-600">标签</th>
+                {history.map((h) => (
+                  <th key={h.year} className="px-2 py-1.5 text-left font-medium text-gray-600 whitespace-nowrap">
+                    {h.year}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {tagNames.map((name) => (
+                <tr key={name}>
+                  <td className="px-2 py-1.5 text-gray-700 whitespace-nowrap">
+                    {defMap.get(name)?.display_name || name}
+                  </td>
+                  {history.map((h, i) => {
+                    const value = h.tags?.[name];
+                    // 与上一学年（右侧一列）不同的值高亮
+                    const older = history[i + 1]?.tags?.[name];
+                    const changed = value !== undefined && history[i + 1]?.tags && older !== value;
+                    return (
+                      <td
+                        key={h.year}
+                        className={`px-2 py-1.5 whitespace-nowrap ${changed ? 'text-blue-700 font-medium' : 'text-gray-600'}`}
+                      >
+                        {h.tags === null ? (
+                          <span className="text-red-400">加载失败</span>
+                        ) : (
+                          value ?? <span className="text-gray-300">-</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,601 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, RefreshCw, Download, Upload, FileText, CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+import {
+  listUsers,
+  getUserTags,
+  getUsersTagsBatch,
+  assignUserTag,
+  removeUserTag,
+  getErrorMessage,
+} from '../../api/client';
+import { useTagStore } from '../../stores/tagStore';
+import { getSelectedAcademicYear, useAcademicYearStore } from '../../stores/academicYearStore';
+import { selectableAcademicYears } from '../../utils/academicYear';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { parseCsv, downloadCsv } from '../../utils/csv';
+import {
+  buildUserTagsCsv,
+  findUserKeyColumn,
+  guessColumnMapping,
+  validateTagValue,
+  diffUserTags,
+} from '../../utils/tagCsv';
+import { parseTagQuery, TagQuerySyntaxError } from '../../utils/tagQuery';
+import { filterUsersByTagCondition } from '../../utils/tagEvaluator';
+import type { TagCondition, TagDefinition, TagImportRowError, TagImportUserDiff } from '../../types/tag';
+import type { SSOUser } from '../../types/user';
+
+const CSV_CONCURRENCY = 4;
+const EXPORT_PAGE_SIZE = 100;
+
+const inputClass = 'w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500';
+
+// 学年只能从可选范围中选，避免按格式不对的学年导出或写入标签
+function AcademicYearField({ value, onChange }: { value: string; onChange: (year: string) => void }) {
+  const currentYear = useAcademicYearStore((s) => s.currentYear);
+  const years = selectableAcademicYears(currentYear);
+  if (!years.includes(value)) years.push(value);
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">学年</label>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        {years.map((year) => (
+          <option key={year} value={year}>
+            {year}
+            {year === currentYear ? '（当前）' : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// ================================================================================
+// Export
+// ================================================================================
+
+function ExportTab({
+  keyword,
+  role,
+  definitions,
+}: {
+  keyword: string;
+  role: string;
+  definitions: TagDefinition[];
+}) {
+  const [academicYear, setAcademicYear] = useState(() => getSelectedAcademicYear());
+  const [conditionText, setConditionText] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exported, setExported] = useState<number | null>(null);
+
+  const handleExport = async () => {
+    setError(null);
+    setExported(null);
+
+    let condition: TagCondition | null = null;
+    if (conditionText.trim()) {
+      try {
+        condition = parseTagQuery(conditionText);
+      } catch (err) {
+        if (!(err instanceof TagQuerySyntaxError)) throw err;
+        setError(`标签条件第 ${err.position + 1} 列：${err.message}`);
+        return;
+      }
+    }
+
+    try {
+      // 分页拉取当前筛选条件下的全部用户
+      const users: SSOUser[] = [];
+      for (let page = 1; ; page += 1) {
+        setProgress(`正在获取用户（${users.length}）...`);
+        const res = await listUsers({
+          keyword: keyword || undefined,
+          role: role || undefined,
+          page,
+          limit: EXPORT_PAGE_SIZE,
+        });
+        users.push(...res.items);
+        if (res.items.length < EXPORT_PAGE_SIZE || users.length >= res.total) break;
+      }
+
+      // 按页批量拉取标签，避免每个用户单独请求
+      const year = academicYear;
+      const tagsByUser: Record<number, Record<string, string>> = {};
+      for (let start = 0; start < users.length; start += EXPORT_PAGE_SIZE) {
+        setProgress(`正在获取标签 ${start}/${users.length}...`);
+        const ids = users.slice(start, start + EXPORT_PAGE_SIZE).map((u) => u.id);
+        Object.assign(tagsByUser, await getUsersTagsBatch(ids, year));
+      }
+      const failed = users.filter((u) => !tagsByUser[u.id]).length;
+      if (failed > 0) {
+        setError(`${failed} 个用户的标签获取失败，已取消导出`);
+        return;
+      }
+
+      let rows = users.map((user) => ({ user, tags: tagsByUser[user.id] }));
+      if (condition) {
+        const matched = new Set(filterUsersByTagCondition(rows, condition, definitions).map((r) => r.user.id));
+        rows = rows.filter((r) => matched.has(r.user.id));
+      }
+
+      downloadCsv(`users-tags-${year}.csv`, buildUserTagsCsv(rows, definitions));
+      setExported(rows.length);
+    } catch (err) {
+      setError(getErrorMessage(err, '导出失败'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2">
+        当前筛选：{keyword ? `关键字「${keyword}」` : '全部用户'}
+        {role && `，角色 ${role}`}
+      </div>
+      <AcademicYearField value={academicYear} onChange={setAcademicYear} />
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">标签条件（可选）</label>
+        <input
+          type="text"
+          value={conditionText}
+          onChange={(e) => setConditionText(e.target.value)}
+          placeholder='如 grade == "2024" AND exists(class_name)'
+          spellCheck={false}
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+      {exported !== null && (
+        <div className="bg-green-50 text-green-700 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          已导出 {exported} 个用户
+        </div>
+      )}
+
+      <button
+        onClick={handleExport}
+        disabled={progress !== null}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+      >
+        {progress ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        {progress || '导出 CSV'}
+      </button>
+    </div>
+  );
+}
+
+// ================================================================================
+// Import
+// ================================================================================
+
+type ApplyStatus = 'pending' | 'success' | 'failed';
+
+interface ImportPlan {
+  diffs: TagImportUserDiff[];
+  unchanged: number;
+  errors: TagImportRowError[];
+}
+
+// 按 CSV 中的 student_id / username 精确查找用户
+async function lookupUser(key: 'student_id' | 'username', value: string): Promise<SSOUser | null> {
+  const res = await listUsers({ keyword: value, limit: 20 });
+  return res.items.find((u) => u[key] === value) || null;
+}
+
+const changeStyles = {
+  added: 'bg-green-50 text-green-700',
+  changed: 'bg-amber-50 text-amber-700',
+  removed: 'bg-red-50 text-red-700 line-through',
+};
+
+function ImportTab({ definitions, onImported }: { definitions: TagDefinition[]; onImported?: () => void }) {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(string | null)[]>([]);
+  const [academicYear, setAcademicYear] = useState(() => getSelectedAcademicYear());
+  const [clearEmpty, setClearEmpty] = useState(false);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [planning, setPlanning] = useState<string | null>(null);
+  const [applyStatus, setApplyStatus] = useState<Record<number, { status: ApplyStatus; error?: string }>>({});
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const header = rows[0] || [];
+  const keyColumn = findUserKeyColumn(header);
+  const defMap = new Map(definitions.map((d) => [d.name, d]));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setPlan(null);
+    setApplyStatus({});
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        setError('CSV 至少需要表头和一行数据');
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0], definitions));
+    } catch (err) {
+      setError(getErrorMessage(err, '读取文件失败'));
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!keyColumn) return;
+    setError(null);
+    setApplyStatus({});
+    const year = academicYear;
+    const errors: TagImportRowError[] = [];
+    const nameColumn = header.findIndex((h) => h.trim().toLowerCase() === 'display_name');
+
+    // 先校验单元格
+    const candidates = rows.slice(1).flatMap((cells, i) => {
+      const row = i + 2;
+      const keyValue = (cells[keyColumn.index] || '').trim();
+      if (!keyValue) {
+        errors.push({ row, column: header[keyColumn.index], message: '缺少用户标识' });
+        return [];
+      }
+      const incoming: Record<string, string> = {};
+      let valid = true;
+      mapping.forEach((tagName, col) => {
+        if (!tagName) return;
+        const value = (cells[col] || '').trim();
+        const message = value ? validateTagValue(defMap.get(tagName)!, value) : null;
+        if (message) {
+          errors.push({ row, column: header[col], value, message });
+          valid = false;
+        }
+        incoming[tagName] = value;
+      });
+      return valid ? [{ row, keyValue, displayName: nameColumn >= 0 ? cells[nameColumn] : '', incoming }] : [];
+    });
+
+    // 再定位用户并读取现有标签
+    let done = 0;
+    setPlanning(`正在读取用户标签 0/${candidates.length}...`);
+    const resolved = await mapWithConcurrency(
+      candidates,
+      CSV_CONCURRENCY,
+      async (c) => {
+        let userId: number;
+        let displayName = c.displayName;
+        if (keyColumn.key === 'id') {
+          userId = Number(c.keyValue);
+          if (!Number.isInteger(userId)) throw new Error(`无效的用户 ID「${c.keyValue}」`);
+        } else {
+          const user = await lookupUser(keyColumn.key, c.keyValue);
+          if (!user) throw new Error(`找不到用户「${c.keyValue}」`);
+          userId = user.id;
+          displayName = displayName || user.display_name;
+        }
+        const current = await getUserTags(userId, year);
+        return {
+          row: c.row,
+          userId,
+          displayName: displayName || `用户 #${userId}`,
+          changes: diffUserTags(current, c.incoming, clearEmpty),
+        };
+      },
+      {
+        onSettled: () => {
+          done += 1;
+          setPlanning(`正在读取用户标签 ${done}/${candidates.length}...`);
+        },
+      }
+    );
+
+    const diffs: TagImportUserDiff[] = [];
+    let unchanged = 0;
+    resolved.forEach((result, i) => {
+      if (!result.ok) {
+        errors.push({ row: candidates[i].row, message: getErrorMessage(result.error) });
+      } else if (result.value.changes.length === 0) {
+        unchanged += 1;
+      } else {
+        diffs.push(result.value);
+      }
+    });
+    errors.sort((a, b) => a.row - b.row);
+    setPlan({ diffs, unchanged, errors });
+    setPlanning(null);
+  };
+
+  const applyDiffs = async (diffs: TagImportUserDiff[]) => {
+    const year = academicYear;
+    setApplying(true);
+    setApplyStatus((prev) => ({
+      ...prev,
+      ...Object.fromEntries(diffs.map((d) => [d.row, { status: 'pending' as const }])),
+    }));
+    await mapWithConcurrency(
+      diffs,
+      CSV_CONCURRENCY,
+      async (diff) => {
+        for (const change of diff.changes) {
+          if (change.type === 'removed') {
+            await removeUserTag(diff.userId, change.tagName, year);
+          } else {
+            await assignUserTag(diff.userId, {
+              tag_name: change.tagName,
+              tag_value: change.newValue!,
+              academic_year: year,
+            });
+          }
+        }
+      },
+      {
+        onSettled: (result, diff) =>
+          setApplyStatus((prev) => ({
+            ...prev,
+            [diff.row]: result.ok ? { status: 'success' } : { status: 'failed', error: getErrorMessage(result.error) },
+          })),
+      }
+    );
+    setApplying(false);
+    onImported?.();
+  };
+
+  const failedDiffs = plan?.diffs.filter((d) => applyStatus[d.row]?.status === 'failed') || [];
+  const appliedCount = Object.values(applyStatus).filter((s) => s.status !== 'pending').length;
+  const changeCounts = (plan?.diffs || [])
+    .flatMap((d) => d.changes)
+    .reduce((acc, c) => ({ ...acc, [c.type]: acc[c.type] + 1 }), { added: 0, changed: 0, removed: 0 });
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed rounded-lg text-sm text-gray-500 hover:bg-gray-50 cursor-pointer">
+        <FileText className="w-5 h-5" />
+        {fileName ? `${fileName}（${rows.length - 1} 行）` : '选择 CSV 文件'}
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {rows.length > 1 && (
+        <>
+          {!keyColumn && (
+            <div className="bg-red-50 text-red-600 px-4 py-2 rounded-lg text-sm">
+              CSV 需要包含 id、student_id 或 username 列来定位用户
+            </div>
+          )}
+
+          {/* 列映射 */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">列映射</h4>
+            <div className="border rounded-lg divide-y max-h-48 overflow-y-auto">
+              {header.map((h, col) => (
+                <div key={col} className="px-3 py-1.5 flex items-center gap-3 text-sm">
+                  <span className="flex-1 truncate font-mono text-gray-700">{h || `（第 ${col + 1} 列）`}</span>
+                  {keyColumn?.index === col ? (
+                    <span className="text-xs text-blue-600">用户标识</span>
+                  ) : (
+                    <select
+                      value={mapping[col] || ''}
+                      onChange={(e) => {
+                        setPlan(null);
+                        setMapping((prev) => prev.map((m, i) => (i === col ? e.target.value || null : m)));
+                      }}
+                      disabled={applying}
+                      className="w-40 px-2 py-1 border rounded text-xs"
+                    >
+                      <option value="">忽略</option>
+                      {definitions.map((d) => (
+                        <option key={d.name} value={d.name}>
+                          {d.display_name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <AcademicYearField
+              value={academicYear}
+              onChange={(year) => {
+                setAcademicYear(year);
+                setPlan(null);
+              }}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600 pb-2">
+              <input
+                type="checkbox"
+                checked={clearEmpty}
+                onChange={(e) => {
+                  setClearEmpty(e.target.checked);
+                  setPlan(null);
+                }}
+                className="rounded border-gray-300"
+              />
+              空单元格移除标签
+            </label>
+          </div>
+
+          <button
+            onClick={handlePreview}
+            disabled={!keyColumn || !mapping.some(Boolean) || planning !== null || applying}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 border rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {planning && <RefreshCw className="w-4 h-4 animate-spin" />}
+            {planning || '预览变更'}
+          </button>
+        </>
+      )}
+
+      {/* 预览 */}
+      {plan && (
+        <div className="space-y-3">
+          <div className="text-sm text-gray-600">
+            {plan.diffs.length} 个用户有变更（
+            <span className="text-green-600">新增 {changeCounts.added}</span>，
+            <span className="text-amber-600">修改 {changeCounts.changed}</span>，
+            <span className="text-red-600">移除 {changeCounts.removed}</span>），{plan.unchanged} 个用户无变化
+            {plan.errors.length > 0 && <span className="text-red-600">，{plan.errors.length} 行有错误</span>}
+          </div>
+
+          {plan.errors.length > 0 && (
+            <div className="border border-red-200 rounded-lg max-h-32 overflow-y-auto divide-y divide-red-100">
+              {plan.errors.map((e, i) => (
+                <div key={i} className="px-3 py-1 text-xs text-red-600">
+                  第 {e.row} 行{e.column && ` · ${e.column}`}
+                  {e.value && `「${e.value}」`}：{e.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {plan.diffs.length > 0 && (
+            <div className="border rounded-lg max-h-60 overflow-y-auto divide-y">
+              {plan.diffs.map((diff) => {
+                const status = applyStatus[diff.row];
+                return (
+                  <div key={diff.row} className="px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      {status?.status === 'success' && <CheckCircle className="w-4 h-4 text-green-500" />}
+                      {status?.status === 'failed' && <XCircle className="w-4 h-4 text-red-500" />}
+                      {status?.status === 'pending' && <RefreshCw className="w-4 h-4 text-gray-300 animate-spin" />}
+                      <span className="font-medium text-gray-900">{diff.displayName}</span>
+                      <span className="text-xs text-gray-400">第 {diff.row} 行</span>
+                      {status?.error && <span className="ml-auto text-xs text-red-600 truncate">{status.error}</span>}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {diff.changes.map((c) => {
+                        const label = defMap.get(c.tagName)?.display_name || c.tagName;
+                        return (
+                          <span key={c.tagName} className={`px-1.5 py-0.5 rounded text-xs ${changeStyles[c.type]}`}>
+                            {c.type === 'added' && `+ ${label}: ${c.newValue}`}
+                            {c.type === 'changed' && `${label}: ${c.oldValue} → ${c.newValue}`}
+                            {c.type === 'removed' && `${label}: ${c.oldValue}`}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {plan.diffs.length > 0 && (
+            <div className="flex items-center gap-2">
+              {appliedCount > 0 && (
+                <span className="text-xs text-gray-500">
+                  已处理 {appliedCount}/{plan.diffs.length}
+                </span>
+              )}
+              <span className="flex-1" />
+              {failedDiffs.length > 0 && !applying && (
+                <button
+                  onClick={() => applyDiffs(failedDiffs)}
+                  className="flex items-center gap-1 px-4 py-2 text-amber-700 hover:bg-amber-50 rounded-lg text-sm"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  重试失败项
+                </button>
+              )}
+              <button
+                onClick={() => applyDiffs(plan.diffs)}
+                disabled={applying || appliedCount > 0}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {applying ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                应用 {plan.diffs.length} 个用户的变更
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ================================================================================
+// Modal
+// ================================================================================
+
+interface UserTagsCsvModalProps {
+  keyword: string;
+  role: string;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+// 用户标签 CSV 导入导出
+export default function UserTagsCsvModal({ keyword, role, onClose, onImported }: UserTagsCsvModalProps) {
+  const { definitions, loadDefinitions } = useTagStore();
+  const [tab, setTab] = useState<'export' | 'import'>('export');
+
+  useEffect(() => {
+    if (definitions.length === 0) loadDefinitions();
+  }, [definitions.length, loadDefinitions]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">用户标签 CSV</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex border-b px-6">
+          {(
+            [
+              ['export', '导出', Download],
+              ['import', '导入', Upload],
+            ] as const
+          ).map(([key, label, Icon]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`flex items-center gap-1 px-4 py-2 text-sm border-b-2 -mb-px ${
+                tab === key ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {/* 两个面板都保持挂载，切换时不丢失导入进度 */}
+          <div className={tab === 'export' ? '' : 'hidden'}>
+            <ExportTab keyword={keyword} role={role} definitions={definitions} />
+          </div>
+          <div className={tab === 'import' ? '' : 'hidden'}>
+            <ImportTab definitions={definitions} onImported={onImported} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
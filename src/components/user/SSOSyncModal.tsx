@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, RefreshCw, Download, FileDown, History, CheckCircle, XCircle } from 'lucide-react';
+import { useSSOSyncStore, isSyncJobActive } from '../../stores/ssoSyncStore';
+import { formatDate } from '../../utils';
+import { formatDuration } from '../../utils/decisionTreeStats';
+import { downloadCsv } from '../../utils/csv';
+import type { SSOSyncJob, SSOSyncJobStatus, SSOSyncUserAction } from '../../types/user';
+
+const statusLabels: Record<SSOSyncJobStatus, { label: string; color: string }> = {
+  pending: { label: '排队中', color: 'bg-gray-100 text-gray-600' },
+  running: { label: '同步中', color: 'bg-blue-100 text-blue-700' },
+  succeeded: { label: '已完成', color: 'bg-green-100 text-green-700' },
+  failed: { label: '失败', color: 'bg-red-100 text-red-700' },
+};
+
+const actionLabels: Record<SSOSyncUserAction, { label: string; color: string }> = {
+  created: { label: '新建', color: 'text-green-700' },
+  updated: { label: '更新', color: 'text-blue-700' },
+  deactivated: { label: '停用', color: 'text-amber-700' },
+  failed: { label: '失败', color: 'text-red-600' },
+};
+
+const ACTIONS: SSOSyncUserAction[] = ['failed', 'created', 'updated', 'deactivated'];
+
+function jobDuration(job: SSOSyncJob): string {
+  const end = job.finished_at ? new Date(job.finished_at).getTime() : Date.now();
+  return formatDuration(Math.max(0, end - new Date(job.started_at).getTime()));
+}
+
+interface SSOSyncModalProps {
+  onClose: () => void;
+}
+
+// SSO 同步任务：启动、进度、逐个用户的结果报告和历史记录
+export default function SSOSyncModal({ onClose }: SSOSyncModalProps) {
+  const {
+    history,
+    historyLoading,
+    runningJob,
+    viewingJob,
+    viewingLoading,
+    starting,
+    error,
+    loadHistory,
+    startSync,
+    viewJob,
+    clearError,
+  } = useSSOSyncStore();
+  const [actionFilter, setActionFilter] = useState<SSOSyncUserAction | ''>('');
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // 默认展示最近一次任务
+  useEffect(() => {
+    if (!viewingJob && history.length > 0) viewJob(history[0].id);
+  }, [history, viewingJob, viewJob]);
+
+  useEffect(() => {
+    setActionFilter('');
+  }, [viewingJob?.id]);
+
+  const results = viewingJob
+    ? [...viewingJob.results]
+        .filter((r) => !actionFilter || r.action === actionFilter)
+        // 失败的排在最前
+        .sort((a, b) => ACTIONS.indexOf(a.action) - ACTIONS.indexOf(b.action))
+    : [];
+  const progress = viewingJob && viewingJob.total > 0 ? Math.round((viewingJob.processed / viewingJob.total) * 100) : 0;
+
+  const handleExport = () => {
+    if (!viewingJob) return;
+    downloadCsv(`sso-sync-${viewingJob.id}.csv`, [
+      ['sso_id', 'username', 'display_name', 'user_id', 'action', 'error'],
+      ...viewingJob.results.map((r) => [
+        r.sso_id,
+        r.username || '',
+        r.display_name || '',
+        r.user_id ?? '',
+        actionLabels[r.action].label,
+        r.error || '',
+      ]),
+    ]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">SSO 用户同步</h3>
+            <p className="text-sm text-gray-500">从 SSO 拉取用户，查看每次同步的逐个用户结果</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={startSync}
+              disabled={starting || !!runningJob}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              <Download size={16} className={runningJob ? 'animate-bounce' : ''} />
+              {runningJob ? '同步进行中' : starting ? '启动中...' : '开始同步'}
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 text-red-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">{error}</span>
+            <button onClick={clearError} className="text-red-400 hover:text-red-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* History */}
+          <div className="w-60 border-r overflow-y-auto">
+            <div className="px-4 py-2 text-xs font-medium text-gray-500 flex items-center gap-1 border-b bg-gray-50">
+              <History size={12} />
+              同步历史
+              {historyLoading && <RefreshCw size={12} className="animate-spin" />}
+            </div>
+            {history.length === 0 && !historyLoading ? (
+              <p className="px-4 py-6 text-sm text-gray-400 text-center">暂无同步记录</p>
+            ) : (
+              history.map((job) => {
+                const status = statusLabels[job.status];
+                return (
+                  <button
+                    key={job.id}
+                    onClick={() => viewJob(job.id)}
+                    className={`w-full text-left px-4 py-2.5 border-b hover:bg-gray-50 ${
+                      viewingJob?.id === job.id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-800">{formatDate(job.started_at)}</span>
+                      <span className={`px-1.5 py-0.5 rounded text-xs ${status.color}`}>{status.label}</span>
+                    </div>
+                    <div className="mt-0.5 text-xs text-gray-500">
+                      {isSyncJobActive(job)
+                        ? `${job.processed}/${job.total || '?'}`
+                        : `新建 ${job.created} · 更新 ${job.updated} · 停用 ${job.deactivated}`}
+                      {job.failed > 0 && <span className="text-red-600"> · 失败 {job.failed}</span>}
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+
+          {/* Report */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {viewingLoading && !viewingJob ? (
+              <div className="flex-1 flex items-center justify-center">
+                <RefreshCw className="w-6 h-6 animate-spin text-gray-400" />
+              </div>
+            ) : !viewingJob ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-400">
+                点击“开始同步”发起第一次同步
+              </div>
+            ) : (
+              <>
+                <div className="px-6 py-4 border-b space-y-3">
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusLabels[viewingJob.status].color}`}>
+                      {statusLabels[viewingJob.status].label}
+                    </span>
+                    <span className="text-gray-600">开始 {formatDate(viewingJob.started_at)}</span>
+                    {viewingJob.finished_at && (
+                      <span className="text-gray-600">结束 {formatDate(viewingJob.finished_at)}</span>
+                    )}
+                    <span className="text-gray-500">耗时 {jobDuration(viewingJob)}</span>
+                    {viewingJob.triggered_by && <span className="text-gray-400">由 {viewingJob.triggered_by} 发起</span>}
+                    <button
+                      onClick={handleExport}
+                      disabled={viewingJob.results.length === 0}
+                      className="ml-auto flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-40"
+                    >
+                      <FileDown size={14} />
+                      导出报告
+                    </button>
+                  </div>
+
+                  {isSyncJobActive(viewingJob) && (
+                    <div>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+                      </div>
+                      <div className="mt-1 text-xs text-gray-500">
+                        {viewingJob.total > 0
+                          ? `已处理 ${viewingJob.processed}/${viewingJob.total}`
+                          : '正在从 SSO 拉取用户...'}
+                      </div>
+                    </div>
+                  )}
+
+                  {viewingJob.error && (
+                    <div className="flex items-start gap-2 text-sm text-red-600">
+                      <XCircle size={16} className="flex-shrink-0 mt-0.5" />
+                      {viewingJob.error}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    {ACTIONS.map((action) => {
+                      const count = viewingJob[action];
+                      const active = actionFilter === action;
+                      return (
+                        <button
+                          key={action}
+                          onClick={() => setActionFilter(active ? '' : action)}
+                          className={`flex-1 px-3 py-2 rounded-lg border text-left ${
+                            active ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                          }`}
+                        >
+                          <div className={`text-lg font-semibold ${count > 0 ? actionLabels[action].color : 'text-gray-300'}`}>
+                            {count}
+                          </div>
+                          <div className="text-xs text-gray-500">{actionLabels[action].label}</div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                  {results.length === 0 ? (
+                    <div className="py-12 text-center text-sm text-gray-400">
+                      {viewingJob.status === 'succeeded' && !actionFilter ? (
+                        <span className="inline-flex items-center gap-1">
+                          <CheckCircle size={16} className="text-green-500" />
+                          没有用户发生变化
+                        </span>
+                      ) : (
+                        '暂无记录'
+                      )}
+                    </div>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium text-gray-600">用户</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-600">SSO ID</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-600 w-16">结果</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-600">错误原因</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {results.map((r) => (
+                          <tr key={`${r.sso_id}-${r.action}`}>
+                            <td className="px-4 py-2">
+                              <div className="text-gray-900">{r.display_name || r.username || '-'}</div>
+                              {r.username && r.display_name && <div className="text-xs text-gray-500">{r.username}</div>}
+                            </td>
+                            <td className="px-4 py-2 font-mono text-xs text-gray-600">{r.sso_id}</td>
+                            <td className={`px-4 py-2 whitespace-nowrap ${actionLabels[r.action].color}`}>
+                              {actionLabels[r.action].label}
+                            </td>
+                            <td className="px-4 py-2 text-xs text-red-600 break-all">{r.error}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Search, User, Shield, Tags, X, RefreshCw, Users } from 'lucide-react';
+import { listUsers, queryUsersByTags, getErrorMessage } from '../../api/client';
+import { useAcademicYearStore } from '../../stores/academicYearStore';
+import { roleLabels } from '../../utils/roles';
+import { isCompleteCondition } from '../../utils/tagCondition';
+import TagConditionBuilder from '../tag/TagConditionBuilder';
+import type { AssigneeConfig } from '../../types/workflow';
+import type { SSOUser } from '../../types/user';
+
+type AssigneeMode = AssigneeConfig['type'];
+
+const modeTabs: { mode: AssigneeMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'user', label: '指定用户', icon: User },
+  { mode: 'role', label: '角色', icon: Shield },
+  { mode: 'tags', label: '标签条件', icon: Tags },
+];
+
+function isAssigneeConfig(value: unknown): value is AssigneeConfig {
+  return typeof value === 'object' && value !== null && 'type' in value;
+}
+
+// 匹配用户预览
+interface PreviewState {
+  loading: boolean;
+  total: number;
+  names: string[];
+  error: string | null;
+}
+
+function AudiencePreview({ preview }: { preview: PreviewState | null }) {
+  if (!preview) return null;
+  return (
+    <div className="mt-2 px-2 py-1.5 rounded bg-gray-50 text-xs text-gray-600">
+      {preview.loading ? (
+        <span className="flex items-center gap-1">
+          <RefreshCw size={12} className="animate-spin" />
+          正在匹配用户...
+        </span>
+      ) : preview.error ? (
+        <span className="text-red-600">{preview.error}</span>
+      ) : (
+        <>
+          <span className="flex items-center gap-1 font-medium text-gray-700">
+            <Users size={12} />
+            匹配 {preview.total} 个用户
+          </span>
+          {preview.names.length > 0 && (
+            <span className="block mt-0.5 truncate">
+              {preview.names.join('、')}
+              {preview.total > preview.names.length && ' 等'}
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// 用户搜索
+function UserSearch({
+  value,
+  onChange,
+}: {
+  value: Extract<AssigneeConfig, { type: 'user' }> | null;
+  onChange: (value: AssigneeConfig | undefined) => void;
+}) {
+  const [keyword, setKeyword] = useState('');
+  const [results, setResults] = useState<SSOUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!keyword.trim()) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await listUsers({ keyword: keyword.trim(), limit: 8 });
+        setResults(res.items);
+      } catch (err) {
+        setError(getErrorMessage(err, '搜索用户失败'));
+      } finally {
+        setLoading(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [keyword]);
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between px-3 py-2 border rounded-md text-sm bg-blue-50 border-blue-200">
+        <span className="flex items-center gap-2 text-blue-700">
+          <User size={14} />
+          {value.displayName || `用户 #${value.userId}`}
+          <span className="text-xs text-blue-400">#{value.userId}</span>
+        </span>
+        <button onClick={() => onChange(undefined)} className="text-blue-400 hover:text-red-500">
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="relative">
+        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          placeholder="搜索姓名、学号..."
+          className="w-full pl-8 pr-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+      {(loading || error || results.length > 0) && (
+        <div className="mt-1 border rounded-md max-h-48 overflow-y-auto">
+          {loading && <p className="px-3 py-2 text-xs text-gray-500">搜索中...</p>}
+          {error && <p className="px-3 py-2 text-xs text-red-600">{error}</p>}
+          {!loading &&
+            results.map((user) => (
+              <button
+                key={user.id}
+                onClick={() => onChange({ type: 'user', userId: user.id, displayName: user.display_name })}
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-blue-50 flex items-center justify-between"
+              >
+                <span>{user.display_name}</span>
+                <span className="text-xs text-gray-400">{user.student_id || user.username}</span>
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AssigneePickerProps {
+  value: unknown;
+  onChange: (value: AssigneeConfig | undefined) => void;
+  invalid?: boolean;
+}
+
+// 处理人选择器
+export default function AssigneePicker({ value, onChange, invalid = false }: AssigneePickerProps) {
+  const config = isAssigneeConfig(value) ? value : null;
+  const [mode, setMode] = useState<AssigneeMode>(config?.type || 'user');
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+
+  // 角色和标签条件预览匹配的用户；value 每次渲染可能是新对象，按内容生成稳定的依赖
+  const academicYear = useAcademicYearStore((s) => s.selectedYear);
+  const previewKey = config && config.type !== 'user' ? JSON.stringify(config) : '';
+  const previewConfig = useMemo(
+    () => (previewKey ? (JSON.parse(previewKey) as Exclude<AssigneeConfig, { type: 'user' }>) : null),
+    [previewKey]
+  );
+  useEffect(() => {
+    if (!previewConfig) {
+      setPreview(null);
+      return;
+    }
+    if (previewConfig.type === 'tags' && !isCompleteCondition(previewConfig.condition)) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setPreview({ loading: true, total: 0, names: [], error: null });
+      try {
+        if (previewConfig.type === 'role') {
+          const res = await listUsers({ role: previewConfig.role, limit: 5 });
+          if (!cancelled) {
+            setPreview({ loading: false, total: res.total, names: res.items.map((u) => u.display_name), error: null });
+          }
+        } else {
+          const res = await queryUsersByTags(previewConfig.condition, 1, 5, academicYear);
+          if (!cancelled) {
+            setPreview({
+              loading: false,
+              total: res.total,
+              names: res.users.map((u) => u.user.display_name),
+              error: null,
+            });
+          }
+        }
+      } catch (err) {
+        if (!cancelled) setPreview({ loading: false, total: 0, names: [], error: getErrorMessage(err, '预览失败') });
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [previewConfig, academicYear]);
+
+  const handleModeChange = (next: AssigneeMode) => {
+    setMode(next);
+    if (config && config.type !== next) onChange(undefined);
+  };
+
+  return (
+    <div className={`rounded-md border p-2 ${invalid ? 'border-red-400' : 'border-gray-200'}`}>
+      <div className="flex gap-1 mb-2">
+        {modeTabs.map((tab) => (
+          <button
+            key={tab.mode}
+            onClick={() => handleModeChange(tab.mode)}
+            className={`flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs ${
+              mode === tab.mode ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            <tab.icon size={12} />
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {typeof value === 'string' && value && (
+        <p className="mb-2 text-xs text-amber-600">旧格式处理人：{value}，请重新选择</p>
+      )}
+
+      {mode === 'user' && (
+        <UserSearch value={config?.type === 'user' ? config : null} onChange={onChange} />
+      )}
+
+      {mode === 'role' && (
+        <select
+          value={config?.type === 'role' ? config.role : ''}
+          onChange={(e) => onChange(e.target.value ? { type: 'role', role: e.target.value } : undefined)}
+          className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">选择角色...</option>
+          {Object.entries(roleLabels).map(([role, info]) => (
+            <option key={role} value={role}>
+              {info.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {mode === 'tags' && (
+        <TagConditionBuilder
+          value={config?.type === 'tags' ? config.condition : undefined}
+          onChange={(condition) => onChange({ type: 'tags', condition })}
+        />
+      )}
+
+      <AudiencePreview preview={preview} />
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { X, Circle, ScrollText, Trash2 } from 'lucide-react';
+import { useBreakpointStore } from '../../stores/breakpointStore';
+import { useDesignerStore } from '../../stores/designerStore';
+import { useDebugStore } from '../../stores/debugStore';
+import { getErrorMessage } from '../../api/client';
+import { describeHitCondition, isLogpoint, parseHitCondition } from '../../utils/breakpoints';
+
+interface BreakpointEditorProps {
+  nodeId: string;
+  onClose: () => void;
+}
+
+// 编辑断点条件、命中次数和日志点消息
+export default function BreakpointEditor({ nodeId, onClose }: BreakpointEditorProps) {
+  const draftBreakpoint = useBreakpointStore((s) => s.breakpoints[nodeId]);
+  const { save, remove } = useBreakpointStore();
+  const node = useDesignerStore((s) => s.nodes.find((n) => n.id === nodeId));
+  const sessionBreakpoint = useDebugStore((s) => s.session?.breakpoints[nodeId]);
+  const existing = draftBreakpoint || sessionBreakpoint;
+  const hitCount = sessionBreakpoint?.hitCount;
+
+  const [kind, setKind] = useState<'breakpoint' | 'logpoint'>(
+    existing && isLogpoint(existing) ? 'logpoint' : 'breakpoint'
+  );
+  const [condition, setCondition] = useState(existing?.condition || '');
+  const [hitCondition, setHitCondition] = useState(existing?.hitCondition || '');
+  const [logMessage, setLogMessage] = useState(existing?.logMessage || '');
+  const [enabled, setEnabled] = useState(existing?.enabled ?? true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hitConditionInvalid = hitCondition.trim() !== '' && !parseHitCondition(hitCondition);
+  const logMessageMissing = kind === 'logpoint' && !logMessage.trim();
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      onClose();
+    } catch (err) {
+      // 本地已保存，只是没能同步到当前调试会话
+      setError(getErrorMessage(err, '同步到调试会话失败'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hitConditionInvalid || logMessageMissing) return;
+    run(() =>
+      save({
+        nodeId,
+        condition,
+        hitCondition,
+        logMessage: kind === 'logpoint' ? logMessage : undefined,
+        enabled,
+      })
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSave} className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold">{existing ? '编辑断点' : '添加断点'}</h3>
+            <p className="text-sm text-gray-500">
+              {String(node?.data.label || nodeId)}
+              {hitCount !== undefined && <span className="ml-2">· 本次会话已命中 {hitCount} 次</span>}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 text-sm">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setKind('breakpoint')}
+              className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg border ${
+                kind === 'breakpoint' ? 'border-red-500 bg-red-50 text-red-700' : 'border-gray-200 text-gray-600'
+              }`}
+            >
+              <Circle size={12} fill="currentColor" />
+              断点（暂停）
+            </button>
+            <button
+              type="button"
+              onClick={() => setKind('logpoint')}
+              className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg border ${
+                kind === 'logpoint' ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-600'
+              }`}
+            >
+              <ScrollText size={14} />
+              日志点（不暂停）
+            </button>
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">条件表达式</label>
+            <input
+              value={condition}
+              onChange={(e) => setCondition(e.target.value)}
+              placeholder="如 amount > 1000，留空则总是触发"
+              className="w-full px-3 py-2 border rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">命中次数</label>
+            <input
+              value={hitCondition}
+              onChange={(e) => setHitCondition(e.target.value)}
+              placeholder="如 3、== 5、> 2、% 10"
+              className={`w-full px-3 py-2 border rounded-lg font-mono focus:outline-none focus:ring-2 ${
+                hitConditionInvalid ? 'border-red-400 focus:ring-red-500' : 'focus:ring-blue-500'
+              }`}
+            />
+            <p className={`mt-1 text-xs ${hitConditionInvalid ? 'text-red-600' : 'text-gray-500'}`}>
+              {hitConditionInvalid
+                ? '格式应为 [==|>=|>|%] 次数'
+                : hitCondition.trim()
+                  ? describeHitCondition(hitCondition)
+                  : '条件成立的次数满足时才触发'}
+            </p>
+          </div>
+
+          {kind === 'logpoint' && (
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">日志消息</label>
+              <input
+                value={logMessage}
+                onChange={(e) => setLogMessage(e.target.value)}
+                placeholder="如 审批金额 {amount}，{} 中为表达式"
+                className="w-full px-3 py-2 border rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">触发时输出到调试面板的事件日志</p>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            启用
+          </label>
+
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center gap-2 px-6 py-4 border-t">
+          {existing && (
+            <button
+              type="button"
+              onClick={() => run(() => remove(nodeId))}
+              disabled={saving}
+              className="flex items-center gap-1 text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              <Trash2 size={14} />
+              删除
+            </button>
+          )}
+          <div className="flex-1" />
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            type="submit"
+            disabled={saving || hitConditionInvalid || logMessageMissing}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            保存
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
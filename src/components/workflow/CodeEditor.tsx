@@ -0,0 +1,82 @@
+import { useRef } from 'react';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  language?: string;
+  placeholder?: string;
+  rows?: number;
+  invalid?: boolean;
+}
+
+const INDENT = '  ';
+
+// 轻量代码编辑器：等宽字体、行号、Tab 缩进
+export default function CodeEditor({
+  value,
+  onChange,
+  language,
+  placeholder,
+  rows = 10,
+  invalid = false,
+}: CodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = Math.max(value.split('\n').length, rows);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab') return;
+    event.preventDefault();
+    const el = event.currentTarget;
+    const { selectionStart, selectionEnd } = el;
+    const next = value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd);
+    onChange(next);
+    requestAnimationFrame(() => {
+      el.selectionStart = el.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  // 行号与文本同步滚动
+  const handleScroll = () => {
+    if (gutterRef.current && textareaRef.current) {
+      gutterRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  return (
+    <div
+      className={`rounded-md overflow-hidden border bg-slate-900 ${
+        invalid ? 'border-red-400' : 'border-slate-700'
+      }`}
+    >
+      {language && (
+        <div className="px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-400 bg-slate-800 border-b border-slate-700">
+          {language}
+        </div>
+      )}
+      <div className="flex font-mono text-xs leading-5">
+        <div
+          ref={gutterRef}
+          className="select-none overflow-hidden py-2 px-2 text-right text-slate-500 bg-slate-800"
+          style={{ height: `${rows * 1.25 + 1}rem` }}
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i}>{i + 1}</div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={handleScroll}
+          placeholder={placeholder}
+          spellCheck={false}
+          rows={rows}
+          className="flex-1 py-2 px-2 bg-transparent text-slate-100 outline-none resize-none whitespace-pre"
+          style={{ height: `${rows * 1.25 + 1}rem` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { useDebugStore, type DebugEvent, type DebugEventType } from '../../stores/debugStore';
+
+const eventLabels: Record<DebugEventType, { label: string; color: string }> = {
+  node_entered: { label: '进入节点', color: 'text-blue-300' },
+  node_exited: { label: '退出节点', color: 'text-green-300' },
+  breakpoint_hit: { label: '命中断点', color: 'text-red-400' },
+  variable_changed: { label: '变量变化', color: 'text-amber-300' },
+  session_paused: { label: '已暂停', color: 'text-yellow-400' },
+  session_resumed: { label: '继续执行', color: 'text-slate-300' },
+  session_completed: { label: '执行完成', color: 'text-blue-400' },
+  logpoint: { label: '日志点', color: 'text-purple-300' },
+  error: { label: '错误', color: 'text-red-500' },
+};
+
+function describe(event: DebugEvent): string {
+  const payload = (event.payload || {}) as Record<string, unknown>;
+  switch (event.type) {
+    case 'logpoint':
+      return String(payload.message ?? '');
+    case 'variable_changed':
+      return `${payload.key} = ${JSON.stringify(payload.value)}`;
+    case 'error':
+      return String(payload.message ?? JSON.stringify(payload));
+    default:
+      return payload.node_id ? String(payload.node_id) : '';
+  }
+}
+
+// 调试事件日志，日志点输出的消息也显示在这里
+export default function DebugEventLog() {
+  const { events, clearEvents } = useDebugStore();
+  const [onlyLogpoints, setOnlyLogpoints] = useState(false);
+  const visible = onlyLogpoints ? events.filter((e) => e.type === 'logpoint') : events;
+
+  return (
+    <div className="flex flex-col gap-2 h-full">
+      <div className="flex items-center gap-3 text-xs text-slate-400">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={onlyLogpoints}
+            onChange={(e) => setOnlyLogpoints(e.target.checked)}
+            className="rounded border-slate-600 bg-slate-700"
+          />
+          只看日志点
+        </label>
+        <span>{visible.length} 条</span>
+        <button
+          onClick={clearEvents}
+          disabled={events.length === 0}
+          className="ml-auto flex items-center gap-1 hover:text-slate-200 disabled:opacity-40"
+        >
+          <Trash2 size={12} />
+          清空
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto font-mono text-xs">
+        {visible.length === 0 ? (
+          <p className="text-slate-400 text-sm font-sans">暂无事件</p>
+        ) : (
+          visible.map((event, index) => {
+            const meta = eventLabels[event.type] || { label: event.type, color: 'text-slate-300' };
+            return (
+              <div
+                key={event.seq ?? `${event.timestamp}-${index}`}
+                className={`flex gap-2 py-0.5 ${event.type === 'logpoint' ? 'bg-purple-900/30' : ''}`}
+              >
+                <span className="text-slate-500 shrink-0">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                <span className={`shrink-0 w-16 ${meta.color}`}>{meta.label}</span>
+                <span className={`break-all ${event.type === 'logpoint' ? 'text-purple-200' : 'text-slate-300'}`}>
+                  {describe(event)}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,29 +9,112 @@ import {
   CheckCircle,
   AlertCircle,
   Clock,
+  Wifi,
+  WifiOff,
+  RefreshCw,
+  Pencil,
+  Trash2,
+  Link2,
 } from 'lucide-react';
-import { useDebugStore, createDebugSession, getTimeline } from '../../stores/debugStore';
+import { useDebugStore, getTimeline } from '../../stores/debugStore';
+import { useBreakpointStore } from '../../stores/breakpointStore';
+import { useDesignerStore } from '../../stores/designerStore';
+import { getErrorMessage } from '../../api/client';
+import { describeHitCondition, isLogpoint } from '../../utils/breakpoints';
 import type { ExecutionStep } from '../../types/workflow';
+import type { DebugSocketStatus } from '../../utils/debugSocket';
+import ReplayScrubber from './ReplayScrubber';
+import DebugEventLog from './DebugEventLog';
+import VariableInspector from './VariableInspector';
+import WatchPanel from './WatchPanel';
+import type { DebugRunTab } from './DebugRunDialog';
+
+// 事件连接状态
+function ConnectionBadge({ connection, onReconnect }: { connection: DebugSocketStatus; onReconnect: () => void }) {
+  const [now, setNow] = useState(Date.now());
+
+  // 重连倒计时
+  useEffect(() => {
+    if (!connection.nextRetryAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [connection.nextRetryAt]);
+
+  switch (connection.state) {
+    case 'open':
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-400" title="事件推送已连接">
+          <Wifi size={12} />
+          已连接
+        </span>
+      );
+    case 'connecting':
+      return (
+        <span className="flex items-center gap-1 text-xs text-slate-400">
+          <RefreshCw size={12} className="animate-spin" />
+          连接中
+        </span>
+      );
+    case 'reconnecting': {
+      const seconds = connection.nextRetryAt ? Math.max(0, Math.ceil((connection.nextRetryAt - now) / 1000)) : 0;
+      return (
+        <span className="flex items-center gap-1 text-xs text-yellow-400">
+          <RefreshCw size={12} className={seconds === 0 ? 'animate-spin' : ''} />
+          {seconds > 0 ? `连接断开，${seconds}s 后第 ${connection.attempt} 次重连` : `正在重连（第 ${connection.attempt} 次）`}
+          {seconds > 0 && (
+            <button onClick={onReconnect} className="underline hover:text-yellow-300">
+              立即重连
+            </button>
+          )}
+        </span>
+      );
+    }
+    case 'closed':
+      return (
+        <span className="flex items-center gap-1 text-xs text-slate-500">
+          <WifiOff size={12} />
+          已断开
+        </span>
+      );
+    default:
+      return null;
+  }
+}
 
 interface DebugPanelProps {
   onClose: () => void;
+  // 打开调试运行对话框
+  onStartDebug: (tab: DebugRunTab) => void;
 }
 
-export default function DebugPanel({ onClose }: DebugPanelProps) {
+export default function DebugPanel({ onClose, onStartDebug }: DebugPanelProps) {
   const {
     session,
-    setSession,
-    connect,
     step,
     continue: continueExec,
     pause,
     stop,
     highlightedNodeId,
+    connection,
+    reconnectNow,
   } = useDebugStore();
 
-  const [instanceId, setInstanceId] = useState('');
   const [timeline, setTimeline] = useState<ExecutionStep[]>([]);
-  const [activeTab, setActiveTab] = useState<'timeline' | 'variables' | 'breakpoints'>('timeline');
+  const [activeTab, setActiveTab] = useState<'timeline' | 'replay' | 'variables' | 'breakpoints' | 'log'>(
+    'timeline'
+  );
+  const { breakpoints: draftBreakpoints, setEnabled, remove, openEditor } = useBreakpointStore();
+  const designerNodes = useDesignerStore((s) => s.nodes);
+
+  // 草稿中保存的断点，加上会话里存在但本地没有的（如其他页面添加的）
+  const breakpoints = session ? { ...session.breakpoints, ...draftBreakpoints } : draftBreakpoints;
+  const nodeLabel = (nodeId: string) => {
+    const node = designerNodes.find((n) => n.id === nodeId);
+    return node ? String(node.data.label || nodeId) : nodeId;
+  };
+  const syncBreakpoint = (action: Promise<void>) => {
+    action.catch((err) => alert(getErrorMessage(err, '同步断点失败')));
+  };
 
   // 加载时间线
   useEffect(() => {
@@ -40,22 +123,6 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
     }
   }, [session]);
 
-  // 创建调试会话
-  const handleCreateSession = async () => {
-    if (!instanceId) {
-      alert('请输入工作流实例ID');
-      return;
-    }
-    try {
-      const newSession = await createDebugSession(instanceId, 'step');
-      // Cast to DebugSession type from workflow types
-      setSession(newSession as unknown as import('../../types/workflow').DebugSession);
-      connect(newSession.id);
-    } catch (error) {
-      alert('创建调试会话失败');
-    }
-  };
-
   // 停止调试
   const handleStop = async () => {
     await stop();
@@ -94,6 +161,7 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
                 {session.status === 'completed' && '已完成'}
                 {session.status === 'error' && '错误'}
               </span>
+              <ConnectionBadge connection={connection} onReconnect={reconnectNow} />
             </div>
           )}
         </div>
@@ -106,19 +174,19 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
       <div className="flex items-center gap-2 px-4 py-2 border-b border-slate-600">
         {!session ? (
           <>
-            <input
-              type="text"
-              value={instanceId}
-              onChange={(e) => setInstanceId(e.target.value)}
-              placeholder="输入工作流实例ID"
-              className="flex-1 px-3 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm"
-            />
             <button
-              onClick={handleCreateSession}
+              onClick={() => onStartDebug('run')}
               className="flex items-center gap-1 px-3 py-1.5 bg-green-600 rounded text-sm hover:bg-green-700"
             >
               <Play size={14} />
-              开始调试
+              调试运行
+            </button>
+            <button
+              onClick={() => onStartDebug('attach')}
+              className="flex items-center gap-1 px-3 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm hover:bg-slate-600"
+            >
+              <Link2 size={14} />
+              附加到会话
             </button>
           </>
         ) : (
@@ -178,6 +246,16 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
             >
               执行时间线
             </button>
+            <button
+              onClick={() => setActiveTab('replay')}
+              className={`px-4 py-2 text-sm ${
+                activeTab === 'replay'
+                  ? 'border-b-2 border-blue-500 text-blue-400'
+                  : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              回放
+            </button>
             <button
               onClick={() => setActiveTab('variables')}
               className={`px-4 py-2 text-sm ${
@@ -198,6 +276,16 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
             >
               断点
             </button>
+            <button
+              onClick={() => setActiveTab('log')}
+              className={`px-4 py-2 text-sm ${
+                activeTab === 'log'
+                  ? 'border-b-2 border-blue-500 text-blue-400'
+                  : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              事件日志
+            </button>
           </div>
 
           {/* 内容区 */}
@@ -245,52 +333,81 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
               </div>
             )}
 
+            {activeTab === 'replay' && <ReplayScrubber timeline={timeline} />}
+
             {activeTab === 'variables' && (
-              <div className="space-y-2">
-                {Object.entries(session.variables || {}).length === 0 ? (
-                  <p className="text-slate-400 text-sm">暂无变量</p>
-                ) : (
-                  Object.entries(session.variables || {}).map(([key, value]) => (
-                    <div
-                      key={key}
-                      className="flex items-center justify-between py-2 border-b border-slate-700"
-                    >
-                      <span className="font-mono text-sm">{key}</span>
-                      <span className="text-sm text-slate-400 font-mono">
-                        {JSON.stringify(value)}
-                      </span>
-                    </div>
-                  ))
-                )}
-              </div>
+              <>
+                <WatchPanel />
+                <VariableInspector />
+              </>
             )}
 
             {activeTab === 'breakpoints' && (
               <div className="space-y-2">
-                {Object.entries(session.breakpoints || {}).length === 0 ? (
-                  <p className="text-slate-400 text-sm">暂无断点</p>
+                {Object.keys(breakpoints).length === 0 ? (
+                  <p className="text-slate-400 text-sm">暂无断点，点击画布节点左侧的圆点添加</p>
                 ) : (
-                  Object.entries(session.breakpoints || {}).map(([nodeId, bp]) => (
-                    <div
-                      key={nodeId}
-                      className="flex items-center justify-between py-2 border-b border-slate-700"
-                    >
-                      <div className="flex items-center gap-2">
+                  Object.entries(breakpoints).map(([nodeId, bp]) => {
+                    const logpoint = isLogpoint(bp);
+                    const hitCount = session?.breakpoints[nodeId]?.hitCount;
+                    return (
+                      <div
+                        key={nodeId}
+                        className="flex items-center gap-3 py-2 border-b border-slate-700"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={bp.enabled}
+                          onChange={(e) => syncBreakpoint(setEnabled(nodeId, e.target.checked))}
+                          className="rounded border-slate-600 bg-slate-700"
+                          title={bp.enabled ? '禁用' : '启用'}
+                        />
                         <Circle
                           size={12}
-                          className={bp.enabled ? 'text-red-500' : 'text-slate-500'}
+                          className={bp.enabled ? (logpoint ? 'text-purple-400' : 'text-red-500') : 'text-slate-500'}
                           fill={bp.enabled ? 'currentColor' : 'none'}
                         />
-                        <span className="font-mono text-sm">{nodeId}</span>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm">
+                            {nodeLabel(nodeId)}
+                            <span className="ml-2 font-mono text-xs text-slate-500">{nodeId}</span>
+                            {!draftBreakpoints[nodeId] && (
+                              <span className="ml-2 text-xs text-slate-500">（仅当前会话）</span>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap gap-x-3 text-xs text-slate-400">
+                            {logpoint && <span className="text-purple-300">日志: {bp.logMessage}</span>}
+                            {bp.condition && <span className="font-mono">条件: {bp.condition}</span>}
+                            {bp.hitCondition && <span>{describeHitCondition(bp.hitCondition)}</span>}
+                          </div>
+                        </div>
+                        {hitCount !== undefined && (
+                          <span className="text-xs text-slate-400" title="本次会话命中次数">
+                            ×{hitCount}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => openEditor(nodeId)}
+                          className="p-1 text-slate-400 hover:text-slate-200"
+                          title="编辑"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => syncBreakpoint(remove(nodeId))}
+                          className="p-1 text-slate-400 hover:text-red-400"
+                          title="删除"
+                        >
+                          <Trash2 size={14} />
+                        </button>
                       </div>
-                      {bp.condition && (
-                        <span className="text-xs text-slate-400">{bp.condition}</span>
-                      )}
-                    </div>
-                  ))
+                    );
+                  })
                 )}
               </div>
             )}
+
+            {activeTab === 'log' && <DebugEventLog />}
           </div>
         </>
       )}
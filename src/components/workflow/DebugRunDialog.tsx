@@ -0,0 +1,402 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, Bug, Link2, RefreshCw, AlertCircle } from 'lucide-react';
+import { useDesignerStore } from '../../stores/designerStore';
+import { useDebugStore } from '../../stores/debugStore';
+import { useBreakpointStore } from '../../stores/breakpointStore';
+import { startInstance, listDebugSessions, getErrorMessage } from '../../api/client';
+import type { DebugSession } from '../../api/client';
+import type { DebugMode, Variable } from '../../types/workflow';
+import { formatVariableInput, parseVariableInput } from '../../utils/variableInspector';
+
+export type DebugRunTab = 'run' | 'attach';
+
+const modeOptions: { value: DebugMode; label: string; description: string }[] = [
+  { value: 'step', label: '单步', description: '每执行一个节点暂停一次' },
+  { value: 'breakpoint', label: '断点', description: '运行到启用的断点处暂停' },
+  { value: 'continuous', label: '连续', description: '一直运行到结束，只记录过程' },
+];
+
+const statusLabels: Record<DebugSession['status'], { label: string; color: string }> = {
+  paused: { label: '已暂停', color: 'bg-yellow-100 text-yellow-700' },
+  running: { label: '运行中', color: 'bg-green-100 text-green-700' },
+  completed: { label: '已完成', color: 'bg-blue-100 text-blue-700' },
+  error: { label: '错误', color: 'bg-red-100 text-red-700' },
+};
+
+interface DebugRunDialogProps {
+  initialTab?: DebugRunTab;
+  onClose: () => void;
+  // 会话已创建或附加，打开调试面板
+  onStarted: () => void;
+}
+
+// 从设计器直接启动调试：保存并发布当前草稿，填写输入变量后创建调试会话；也可附加到已有会话
+export default function DebugRunDialog({ initialTab = 'run', onClose, onStarted }: DebugRunDialogProps) {
+  const [tab, setTab] = useState<DebugRunTab>(initialTab);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-xl mx-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Bug className="w-5 h-5 text-slate-600" />
+            调试运行
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex border-b px-6">
+          {(['run', 'attach'] as const).map((key) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-3 py-2 text-sm -mb-px ${
+                tab === key ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {key === 'run' ? '新建运行' : '附加到已有会话'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'run' ? (
+          <RunForm onStarted={onStarted} onClose={onClose} />
+        ) : (
+          <AttachList onStarted={onStarted} onClose={onClose} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function InputField({
+  variable,
+  value,
+  error,
+  onChange,
+}: {
+  variable: Variable;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  const inputClass = `w-full px-3 py-1.5 border rounded-lg text-sm focus:outline-none focus:ring-2 ${
+    error ? 'border-red-400 focus:ring-red-500' : 'focus:ring-blue-500'
+  }`;
+
+  return (
+    <div>
+      <label className="flex items-baseline gap-2 text-sm font-medium text-gray-700 mb-1">
+        <span className="font-mono">
+          {variable.name}
+          {variable.required && <span className="text-red-500">*</span>}
+        </span>
+        <span className="text-xs font-normal text-gray-400">{variable.type}</span>
+        {variable.description && (
+          <span className="text-xs font-normal text-gray-500 truncate">{variable.description}</span>
+        )}
+      </label>
+      {variable.type === 'boolean' ? (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+          <option value="">（不设置）</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      ) : variable.type === 'object' || variable.type === 'array' ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          placeholder={variable.type === 'array' ? '[]' : '{}'}
+          className={`${inputClass} font-mono`}
+        />
+      ) : (
+        <input
+          type={variable.type === 'number' ? 'number' : 'text'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      )}
+      {error && <p className="mt-0.5 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function RunForm({ onStarted, onClose }: { onStarted: () => void; onClose: () => void }) {
+  const { design, designId, saveDraft, publish } = useDesignerStore();
+  const { createSession, connect } = useDebugStore();
+  const applyToSession = useBreakpointStore((s) => s.applyToSession);
+
+  const definitions = Object.values(design?.variables || {});
+  const [mode, setMode] = useState<DebugMode>('step');
+  const [inputs, setInputs] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      definitions.map((v) => [v.name, v.defaultValue === undefined ? '' : formatVariableInput(v.defaultValue)])
+    )
+  );
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 未填写的非必填变量不传，由流程使用自身默认值
+  const collectVariables = (): Record<string, unknown> | null => {
+    const variables: Record<string, unknown> = {};
+    const errors: Record<string, string> = {};
+    for (const definition of definitions) {
+      const raw = inputs[definition.name] ?? '';
+      if (!definition.required && raw.trim() === '') continue;
+      const result = parseVariableInput(raw, definition.type, definition.required);
+      if (result.ok) {
+        variables[definition.name] = result.value;
+      } else {
+        errors[definition.name] = result.error;
+      }
+    }
+    setFieldErrors(errors);
+    return Object.keys(errors).length === 0 ? variables : null;
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!designId) return;
+    const variables = collectVariables();
+    if (!variables) return;
+
+    setError(null);
+    try {
+      setProgress('保存草稿...');
+      await saveDraft();
+      // 实例只能基于已发布的流程定义启动
+      setProgress('发布...');
+      const definitionId = await publish();
+      setProgress('启动实例...');
+      const instance = await startInstance(definitionId, variables);
+      setProgress('创建调试会话...');
+      const session = await createSession(instance.id, mode);
+      connect(session.id);
+      setProgress('下发断点...');
+      try {
+        await applyToSession();
+      } catch (err) {
+        // 会话已经建立，断点可在调试面板中重试
+        console.error('Failed to apply breakpoints:', err);
+      }
+      onStarted();
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, '启动调试失败'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (!design) {
+    return <p className="px-6 py-10 text-center text-sm text-gray-500">请先打开一个工作流草稿</p>;
+  }
+
+  return (
+    <form onSubmit={handleStart} className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5 text-sm">
+        <p className="text-xs text-gray-500">启动前会保存并发布当前草稿，生成新的流程版本后运行</p>
+
+        <div>
+          <div className="font-medium text-gray-700 mb-1">调试模式</div>
+          <div className="grid grid-cols-3 gap-2">
+            {modeOptions.map((option) => (
+              <button
+                type="button"
+                key={option.value}
+                onClick={() => setMode(option.value)}
+                className={`px-3 py-2 border rounded-lg text-left ${
+                  mode === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="font-medium text-gray-700 mb-1">输入变量</div>
+          {definitions.length === 0 ? (
+            <p className="text-gray-400">该设计没有定义变量</p>
+          ) : (
+            <div className="space-y-3">
+              {definitions.map((variable) => (
+                <InputField
+                  key={variable.name}
+                  variable={variable}
+                  value={inputs[variable.name] ?? ''}
+                  error={fieldErrors[variable.name]}
+                  onChange={(value) => setInputs({ ...inputs, [variable.name]: value })}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 px-6 py-4 border-t">
+        {progress && <span className="mr-auto text-sm text-gray-500">{progress}</span>}
+        <button type="button" onClick={onClose} className="px-4 py-2 border rounded-lg text-sm hover:bg-gray-50">
+          取消
+        </button>
+        <button
+          type="submit"
+          disabled={!!progress}
+          className="flex items-center gap-1 px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+        >
+          <Bug size={14} />
+          开始调试
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function AttachList({ onStarted, onClose }: { onStarted: () => void; onClose: () => void }) {
+  const { loadSession, connect, createSession } = useDebugStore();
+  const applyToSession = useBreakpointStore((s) => s.applyToSession);
+  const [sessions, setSessions] = useState<DebugSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyActive, setOnlyActive] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [instanceId, setInstanceId] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSessions(await listDebugSessions());
+    } catch (err) {
+      setError(getErrorMessage(err, '加载调试会话失败'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAttach = async (sessionId: string) => {
+    setBusyId(sessionId);
+    setError(null);
+    try {
+      await loadSession(sessionId);
+      connect(sessionId);
+      onStarted();
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, '附加会话失败'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // 已有实例（如从实例列表复制的 ID）新建单步调试会话
+  const handleCreateForInstance = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instanceId.trim()) return;
+    setBusyId(instanceId);
+    setError(null);
+    try {
+      const session = await createSession(instanceId.trim(), 'step');
+      connect(session.id);
+      await applyToSession().catch((err) => console.error('Failed to apply breakpoints:', err));
+      onStarted();
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, '创建调试会话失败'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const visible = onlyActive
+    ? sessions.filter((s) => s.status === 'paused' || s.status === 'running')
+    : sessions;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 text-sm">
+      <div className="px-6 py-2 border-b flex items-center gap-3">
+        <label className="flex items-center gap-1.5 text-gray-600">
+          <input
+            type="checkbox"
+            checked={onlyActive}
+            onChange={(e) => setOnlyActive(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          只看未结束
+        </label>
+        <span className="text-gray-400">{visible.length} 个</span>
+        <button onClick={load} disabled={loading} className="ml-auto text-gray-500 hover:text-gray-700">
+          <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {error && <p className="px-6 py-2 text-red-600">{error}</p>}
+        {!loading && visible.length === 0 ? (
+          <p className="py-10 text-center text-gray-400">没有可附加的调试会话</p>
+        ) : (
+          <ul className="divide-y">
+            {visible.map((session) => {
+              const status = statusLabels[session.status];
+              return (
+                <li key={session.id} className="px-6 py-2 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono text-xs text-gray-700 truncate">{session.id}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      实例 {session.instanceId} · {modeOptions.find((m) => m.value === session.mode)?.label}模式
+                    </div>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded text-xs ${status?.color || 'bg-gray-100'}`}>
+                    {status?.label || session.status}
+                  </span>
+                  <button
+                    onClick={() => handleAttach(session.id)}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-1 px-2 py-1 border rounded text-xs hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Link2 size={12} />
+                    附加
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={handleCreateForInstance} className="px-6 py-3 border-t flex items-center gap-2">
+        <input
+          value={instanceId}
+          onChange={(e) => setInstanceId(e.target.value)}
+          placeholder="或输入已有工作流实例 ID 新建会话"
+          className="flex-1 px-3 py-1.5 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={busyId !== null || !instanceId.trim()}
+          className="px-3 py-1.5 border rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          新建会话
+        </button>
+      </form>
+    </div>
+  );
+}
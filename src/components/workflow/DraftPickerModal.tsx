@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, FileText, Plus, Copy, Trash2, RefreshCw, AlertCircle, FolderOpen } from 'lucide-react';
+import { listDrafts, duplicateDraft, deleteDraft, getErrorMessage } from '../../api/client';
+import type { WorkflowDesign } from '../../api/client';
+import { formatDate } from '../../utils';
+
+const statusLabels: Record<string, { label: string; color: string }> = {
+  draft: { label: '草稿', color: 'bg-gray-100 text-gray-700' },
+  published: { label: '已发布', color: 'bg-green-100 text-green-700' },
+  deprecated: { label: '已废弃', color: 'bg-amber-100 text-amber-700' },
+};
+
+interface DraftPickerModalProps {
+  currentDraftId: string | null;
+  onOpen: (draftId: string) => void;
+  onCreate: (name: string, description?: string) => Promise<void>;
+  onDeleted: (draftId: string) => void;
+  onClose: () => void;
+}
+
+export default function DraftPickerModal({
+  currentDraftId,
+  onOpen,
+  onCreate,
+  onDeleted,
+  onClose,
+}: DraftPickerModalProps) {
+  const [drafts, setDrafts] = useState<WorkflowDesign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 新建表单
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadDrafts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const items = await listDrafts();
+      // 最近更新的排在前面
+      items.sort((a, b) => (b.metadata?.updatedAt || '').localeCompare(a.metadata?.updatedAt || ''));
+      setDrafts(items);
+    } catch (err) {
+      setError(getErrorMessage(err, '加载草稿列表失败'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setCreating(true);
+    setError(null);
+    try {
+      await onCreate(newName.trim(), newDescription.trim() || undefined);
+    } catch (err) {
+      setError(getErrorMessage(err, '创建草稿失败'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDuplicate = async (draft: WorkflowDesign) => {
+    setBusyId(draft.id);
+    setError(null);
+    try {
+      await duplicateDraft(draft.id);
+      await loadDrafts();
+    } catch (err) {
+      setError(getErrorMessage(err, '复制草稿失败'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (draft: WorkflowDesign) => {
+    if (!confirm(`确定要删除草稿「${draft.name}」吗？此操作不可恢复。`)) return;
+    setBusyId(draft.id);
+    setError(null);
+    try {
+      await deleteDraft(draft.id);
+      setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+      onDeleted(draft.id);
+    } catch (err) {
+      setError(getErrorMessage(err, '删除草稿失败'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">工作流草稿</h3>
+            <p className="text-sm text-gray-500">新建或打开一个草稿进行编辑</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={loadDrafts}
+              disabled={loading}
+              className="p-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+              title="刷新"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* 新建草稿 */}
+        <form onSubmit={handleCreate} className="px-6 py-3 border-b bg-gray-50 flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="新草稿名称"
+            className="flex-1 px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <input
+            type="text"
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="描述（可选）"
+            className="flex-1 px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || creating}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            {creating ? '创建中...' : '新建'}
+          </button>
+        </form>
+
+        {/* 草稿列表 */}
+        <div className="flex-1 overflow-auto p-6">
+          {error && (
+            <div className="mb-4 bg-red-50 text-red-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <RefreshCw className="w-6 h-6 animate-spin mx-auto text-gray-400" />
+              <p className="mt-2 text-sm text-gray-500">加载中...</p>
+            </div>
+          ) : drafts.length === 0 ? (
+            <div className="text-center py-8">
+              <FileText className="w-12 h-12 text-gray-300 mx-auto" />
+              <p className="mt-2 text-gray-500">暂无草稿，请先新建一个</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {drafts.map((draft) => {
+                const status = statusLabels[draft.status] || { label: draft.status, color: 'bg-gray-100 text-gray-700' };
+                const isCurrent = draft.id === currentDraftId;
+                return (
+                  <div
+                    key={draft.id}
+                    className={`flex items-center justify-between p-3 rounded-lg border ${
+                      isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <button onClick={() => onOpen(draft.id)} className="flex-1 min-w-0 text-left">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">{draft.name || draft.id}</span>
+                        <span className={`px-1.5 py-0.5 rounded text-xs ${status.color}`}>{status.label}</span>
+                        <span className="text-xs text-gray-400">v{draft.version}</span>
+                        {isCurrent && <span className="text-xs text-blue-600">当前</span>}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate mt-0.5">
+                        {draft.description || '无描述'}
+                        {draft.metadata?.updatedAt && ` · 更新于 ${formatDate(draft.metadata.updatedAt)}`}
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-1 ml-3">
+                      <button
+                        onClick={() => onOpen(draft.id)}
+                        className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                        title="打开"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(draft)}
+                        disabled={busyId === draft.id}
+                        className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                        title="复制"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(draft)}
+                        disabled={busyId === draft.id}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                        title="删除"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
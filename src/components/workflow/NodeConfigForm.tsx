@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import type { ConfigField } from '../../types/workflow';
+import CodeEditor from './CodeEditor';
+import AssigneePicker from './AssigneePicker';
+
+// 检查字段值，返回错误信息
+export function getConfigFieldError(field: ConfigField, value: unknown): string | null {
+  const empty = value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  if (field.required && empty) {
+    return `${field.label}为必填项`;
+  }
+  if (field.type === 'number' && !empty && Number.isNaN(Number(value))) {
+    return `${field.label}必须是数字`;
+  }
+  return null;
+}
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+    invalid ? 'border-red-400' : ''
+  }`;
+
+// JSON 字段：编辑原始文本，解析成功后才写回节点
+function JsonFieldInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: ConfigField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (next.trim() === '') {
+      setParseError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      onChange(JSON.parse(next));
+      setParseError(null);
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : 'JSON 格式错误');
+    }
+  };
+
+  return (
+    <>
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={field.placeholder || '{ }'}
+        rows={4}
+        spellCheck={false}
+        className={`${inputClass(!!parseError)} font-mono text-xs`}
+      />
+      {parseError && <p className="mt-1 text-xs text-red-600">JSON 解析失败：{parseError}</p>}
+    </>
+  );
+}
+
+interface ConfigFieldInputProps {
+  field: ConfigField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  language?: string;
+  invalid?: boolean;
+}
+
+// 根据字段类型渲染对应控件
+export function ConfigFieldInput({ field, value, onChange, language, invalid = false }: ConfigFieldInputProps) {
+  switch (field.type) {
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          placeholder={field.placeholder}
+          className={inputClass(invalid)}
+        />
+      );
+
+    case 'select': {
+      const options = field.options || [];
+      const selectedIndex = options.findIndex((o) => JSON.stringify(o.value) === JSON.stringify(value));
+      return (
+        <select
+          value={selectedIndex >= 0 ? String(selectedIndex) : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : options[Number(e.target.value)].value)}
+          className={inputClass(invalid)}
+        >
+          <option value="">{field.placeholder || '请选择...'}</option>
+          {options.map((option, i) => (
+            <option key={i} value={String(i)}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    case 'json':
+      return <JsonFieldInput field={field} value={value} onChange={onChange} />;
+
+    case 'code':
+      return (
+        <CodeEditor
+          value={typeof value === 'string' ? value : ''}
+          onChange={onChange}
+          language={language}
+          placeholder={field.placeholder}
+          invalid={invalid}
+        />
+      );
+
+    case 'assignee':
+      return <AssigneePicker value={value} onChange={onChange} invalid={invalid} />;
+
+    case 'text':
+    default:
+      return (
+        <input
+          type="text"
+          value={value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          className={inputClass(invalid)}
+        />
+      );
+  }
+}
+
+interface NodeConfigFormProps {
+  nodeId: string;
+  fields: ConfigField[];
+  values: Record<string, unknown>;
+  onChange: (key: string, value: unknown) => void;
+  fieldClass?: (key: string) => string;
+}
+
+// 按节点模板的 configurable 列表生成属性表单
+export default function NodeConfigForm({ nodeId, fields, values, onChange, fieldClass }: NodeConfigFormProps) {
+  const language = typeof values.language === 'string' ? values.language : undefined;
+
+  return (
+    <>
+      {fields.map((field) => {
+        const value = values[field.key] ?? field.defaultValue;
+        const error = getConfigFieldError(field, value);
+        return (
+          <div key={field.key} data-field={field.key} className={fieldClass?.(field.key) || ''}>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              {field.label}
+              {field.required && <span className="ml-0.5 text-red-500">*</span>}
+            </label>
+            <ConfigFieldInput
+              key={`${nodeId}:${field.key}`}
+              field={field}
+              value={value}
+              onChange={(next) => onChange(field.key, next)}
+              language={language}
+              invalid={!!error}
+            />
+            {error ? (
+              <p className="mt-1 text-xs text-red-600">{error}</p>
+            ) : (
+              field.description && <p className="mt-1 text-xs text-gray-400">{field.description}</p>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { useDesignerStore } from '../../stores/designerStore';
+
+interface Problem {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+  field?: string;
+}
+
+// 验证问题列表：点击后选中并居中对应节点或连线
+export default function ProblemsPanel() {
+  const { validationResult, nodes, edges, focusIssue, setValidationResult } = useDesignerStore();
+  const { getInternalNode, setCenter, getZoom } = useReactFlow();
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (!validationResult) return null;
+
+  const problems: Problem[] = [
+    ...validationResult.errors.map((e) => ({ ...e, severity: 'error' as const })),
+    ...validationResult.warnings.map((w) => ({ ...w, severity: 'warning' as const })),
+  ];
+
+  // 居中到节点中心；连线取两端节点中点
+  const centerOn = (nodeIds: string[]) => {
+    const points = nodeIds
+      .map((id) => getInternalNode(id))
+      .filter((n): n is NonNullable<typeof n> => !!n)
+      .map((n) => ({
+        x: n.internals.positionAbsolute.x + (n.measured.width || 0) / 2,
+        y: n.internals.positionAbsolute.y + (n.measured.height || 0) / 2,
+      }));
+    if (points.length === 0) return;
+    const x = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const y = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    setCenter(x, y, { zoom: Math.max(getZoom(), 1), duration: 300 });
+  };
+
+  const handleClick = (problem: Problem) => {
+    focusIssue(problem);
+    if (problem.edgeId) {
+      const edge = edges.find((e) => e.id === problem.edgeId);
+      if (edge) centerOn([edge.source, edge.target]);
+    } else if (problem.nodeId) {
+      centerOn([problem.nodeId]);
+    }
+  };
+
+  const describeTarget = (problem: Problem) => {
+    if (problem.edgeId) return `连线 ${problem.edgeId}`;
+    if (problem.nodeId) {
+      const node = nodes.find((n) => n.id === problem.nodeId);
+      return (node?.data?.label as string) || problem.nodeId;
+    }
+    return '流程';
+  };
+
+  return (
+    <div className="w-80 bg-white rounded shadow text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <button onClick={() => setCollapsed(!collapsed)} className="flex items-center gap-1 font-medium text-gray-700">
+          {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+          问题
+          <span className="ml-1 text-xs text-red-600">{validationResult.errors.length} 错误</span>
+          <span className="text-xs text-amber-600">{validationResult.warnings.length} 警告</span>
+        </button>
+        <button onClick={() => setValidationResult(null)} className="text-gray-400 hover:text-gray-600" title="清除">
+          <X size={14} />
+        </button>
+      </div>
+      {!collapsed && (
+        <div className="max-h-56 overflow-y-auto">
+          {problems.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-green-600">验证通过，没有发现问题</p>
+          ) : (
+            problems.map((problem, i) => {
+              const Icon = problem.severity === 'error' ? AlertCircle : AlertTriangle;
+              const clickable = !!(problem.nodeId || problem.edgeId);
+              return (
+                <button
+                  key={`${problem.code}-${i}`}
+                  onClick={() => handleClick(problem)}
+                  disabled={!clickable}
+                  className="w-full flex items-start gap-2 px-3 py-1.5 text-left hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-transparent"
+                >
+                  <Icon
+                    size={14}
+                    className={`mt-0.5 flex-shrink-0 ${problem.severity === 'error' ? 'text-red-500' : 'text-amber-500'}`}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-gray-800">{problem.message}</span>
+                    <span className="block text-xs text-gray-400 truncate">
+                      {describeTarget(problem)}
+                      {problem.field && ` · ${problem.field}`}
+                    </span>
+                  </span>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
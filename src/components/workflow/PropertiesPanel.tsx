@@ -1,12 +1,71 @@
+import { useEffect, useRef } from 'react';
 import { useDesignerStore } from '../../stores/designerStore';
-import { Trash2 } from 'lucide-react';
+import { Trash2, AlertCircle, AlertTriangle } from 'lucide-react';
+import NodeConfigForm from './NodeConfigForm';
+
+// 验证结果中的字段名可能带 properties. 前缀
+const normalizeField = (field: string | null | undefined) => (field || '').replace(/^properties\./, '');
 
 export default function PropertiesPanel() {
-  const { nodes, edges, selectedNodeId, selectedEdgeId, updateNode, updateEdge, deleteNode, deleteEdge } =
-    useDesignerStore();
+  const {
+    nodes,
+    edges,
+    selectedNodeId,
+    selectedEdgeId,
+    updateNode,
+    updateEdge,
+    deleteNode,
+    deleteEdge,
+    validationResult,
+    highlightedField,
+    templates,
+  } = useDesignerStore();
+  const panelRef = useRef<HTMLDivElement>(null);
 
   const selectedNode = nodes.find((n) => n.id === selectedNodeId);
   const selectedEdge = edges.find((e) => e.id === selectedEdgeId);
+  const templateFields = templates.find((t) => t.type === selectedNode?.type)?.configurable || [];
+
+  // 当前选中元素的验证问题
+  const issues = [
+    ...(validationResult?.errors || [])
+      .filter((e) => (selectedEdge ? e.edgeId === selectedEdge.id : !e.edgeId && e.nodeId === selectedNode?.id))
+      .map((e) => ({ ...e, severity: 'error' as const })),
+    ...(selectedNode ? validationResult?.warnings || [] : [])
+      .filter((w) => w.nodeId === selectedNode?.id)
+      .map((w) => ({ ...w, field: undefined, severity: 'warning' as const })),
+  ];
+  const focusedField = normalizeField(highlightedField);
+
+  // 定位到需要修改的字段
+  useEffect(() => {
+    if (!focusedField) return;
+    const el = panelRef.current?.querySelector<HTMLElement>(`[data-field="${focusedField}"]`);
+    el?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    el?.querySelector<HTMLElement>('input:not([disabled]), textarea, select')?.focus();
+  }, [focusedField, selectedNodeId, selectedEdgeId]);
+
+  const fieldClass = (key: string) =>
+    focusedField === key ? 'rounded-md ring-2 ring-red-400 ring-offset-2 bg-red-50/40' : '';
+
+  const issueList = issues.length > 0 && (
+    <div className="mb-4 space-y-1">
+      {issues.map((issue, i) => {
+        const Icon = issue.severity === 'error' ? AlertCircle : AlertTriangle;
+        return (
+          <div
+            key={`${issue.code}-${i}`}
+            className={`flex items-start gap-2 px-2 py-1.5 rounded text-xs ${
+              issue.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+            }`}
+          >
+            <Icon size={12} className="mt-0.5 flex-shrink-0" />
+            <span>{issue.message}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
 
   if (!selectedNode && !selectedEdge) {
     return (
@@ -19,7 +78,7 @@ export default function PropertiesPanel() {
 
   if (selectedNode) {
     return (
-      <div className="properties-panel w-72 p-4 overflow-y-auto bg-white border-l border-gray-200">
+      <div ref={panelRef} className="properties-panel w-72 p-4 overflow-y-auto bg-white border-l border-gray-200">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-gray-800">节点属性</h2>
           <button
@@ -31,6 +90,8 @@ export default function PropertiesPanel() {
           </button>
         </div>
 
+        {issueList}
+
         <div className="space-y-4">
           {/* ID */}
           <div>
@@ -55,7 +116,7 @@ export default function PropertiesPanel() {
           </div>
 
           {/* 名称 */}
-          <div>
+          <div data-field="name" className={fieldClass('name')}>
             <label className="block text-sm font-medium text-gray-600 mb-1">名称</label>
             <input
               type="text"
@@ -103,27 +164,40 @@ export default function PropertiesPanel() {
             </div>
           </div>
 
-          {/* 动态属性 */}
+          {/* 模板配置项 */}
+          {templateFields.length > 0 && (
+            <div className="pt-2 border-t space-y-4">
+              <NodeConfigForm
+                nodeId={selectedNode.id}
+                fields={templateFields}
+                values={(selectedNode.data || {}) as Record<string, unknown>}
+                onChange={(key, value) => updateNode(selectedNode.id, { properties: { [key]: value } })}
+                fieldClass={fieldClass}
+              />
+            </div>
+          )}
+
+          {/* 模板外的其他属性 */}
           {selectedNode.data &&
             Object.entries(selectedNode.data)
-              .filter(([key]) => key !== 'label')
+              .filter(([key]) => key !== 'label' && !templateFields.some((f) => f.key === key))
               .map(([key, value]) => (
-                <div key={key}>
+                <div key={key} data-field={key} className={fieldClass(key)}>
                   <label className="block text-sm font-medium text-gray-600 mb-1 capitalize">
                     {key}
                   </label>
                   <input
                     type="text"
-                    value={String(value || '')}
+                    value={typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '')}
+                    disabled={typeof value === 'object' && value !== null}
                     onChange={(e) =>
                       updateNode(selectedNode.id, {
                         properties: {
-                          ...selectedNode.data,
                           [key]: e.target.value,
                         },
                       })
                     }
-                    className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
                   />
                 </div>
               ))}
@@ -134,7 +208,7 @@ export default function PropertiesPanel() {
 
   if (selectedEdge) {
     return (
-      <div className="properties-panel w-72 p-4 overflow-y-auto bg-white border-l border-gray-200">
+      <div ref={panelRef} className="properties-panel w-72 p-4 overflow-y-auto bg-white border-l border-gray-200">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-gray-800">连线属性</h2>
           <button
@@ -146,6 +220,8 @@ export default function PropertiesPanel() {
           </button>
         </div>
 
+        {issueList}
+
         <div className="space-y-4">
           {/* ID */}
           <div>
@@ -181,7 +257,7 @@ export default function PropertiesPanel() {
           </div>
 
           {/* 标签 */}
-          <div>
+          <div data-field="label" className={fieldClass('label')}>
             <label className="block text-sm font-medium text-gray-600 mb-1">标签</label>
             <input
               type="text"
@@ -193,7 +269,7 @@ export default function PropertiesPanel() {
           </div>
 
           {/* 条件表达式 */}
-          <div>
+          <div data-field="condition" className={fieldClass('condition')}>
             <label className="block text-sm font-medium text-gray-600 mb-1">条件表达式</label>
             <textarea
               value={(selectedEdge.data?.condition as { expression?: string } | undefined)?.expression || ''}
@@ -212,7 +288,7 @@ export default function PropertiesPanel() {
           </div>
 
           {/* 优先级 */}
-          <div>
+          <div data-field="priority" className={fieldClass('priority')}>
             <label className="block text-sm font-medium text-gray-600 mb-1">优先级</label>
             <input
               type="number"
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useDebugStore } from '../../stores/debugStore';
+import { buildReplayFrames } from '../../utils/debugReplay';
+import type { ExecutionStep } from '../../types/workflow';
+
+const SPEEDS = [0.5, 1, 2, 4];
+// 1x 速度下每一步停留的时间
+const STEP_INTERVAL = 800;
+
+interface ReplayScrubberProps {
+  timeline: ExecutionStep[];
+}
+
+// 执行时间线回放：拖动或播放到任意一步，画布高亮对应节点并显示当时的变量
+export default function ReplayScrubber({ timeline }: ReplayScrubberProps) {
+  const { events, setReplayNode } = useDebugStore();
+  const frames = useMemo(() => buildReplayFrames(timeline, events), [timeline, events]);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const lastIndex = frames.length - 1;
+  const index = Math.min(position, Math.max(0, lastIndex));
+  const frame = frames[index];
+
+  useEffect(() => {
+    setReplayNode(frame?.step.nodeId ?? null);
+  }, [frame, setReplayNode]);
+
+  // 离开回放时恢复实时高亮
+  useEffect(() => () => setReplayNode(null), [setReplayNode]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPosition(index + 1), STEP_INTERVAL / speed);
+    return () => clearTimeout(timer);
+  }, [playing, index, lastIndex, speed]);
+
+  if (!frame) {
+    return <p className="text-slate-400 text-sm">暂无执行记录，无法回放</p>;
+  }
+
+  const go = (next: number) => {
+    setPlaying(false);
+    setPosition(Math.max(0, Math.min(lastIndex, next)));
+  };
+
+  const togglePlay = () => {
+    // 已在末尾时从头播放
+    if (!playing && index >= lastIndex) setPosition(0);
+    setPlaying(!playing);
+  };
+
+  const variables = Object.entries(frame.variables);
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      {/* 控制条 */}
+      <div className="flex items-center gap-2">
+        <button onClick={() => go(0)} className="p-1 hover:bg-slate-700 rounded" title="第一步">
+          <SkipBack size={14} />
+        </button>
+        <button onClick={() => go(index - 1)} className="p-1 hover:bg-slate-700 rounded" title="上一步">
+          <ChevronLeft size={14} />
+        </button>
+        <button
+          onClick={togglePlay}
+          className="flex items-center gap-1 px-2 py-1 bg-blue-600 rounded text-xs hover:bg-blue-700"
+        >
+          {playing ? <Pause size={12} /> : <Play size={12} />}
+          {playing ? '暂停' : '播放'}
+        </button>
+        <button onClick={() => go(index + 1)} className="p-1 hover:bg-slate-700 rounded" title="下一步">
+          <ChevronRight size={14} />
+        </button>
+        <button onClick={() => go(lastIndex)} className="p-1 hover:bg-slate-700 rounded" title="最后一步">
+          <SkipForward size={14} />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={index}
+          onChange={(e) => go(Number(e.target.value))}
+          className="flex-1 accent-amber-500"
+        />
+        <span className="text-xs text-slate-400 w-14 text-right">
+          {index + 1}/{frames.length}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-1 py-0.5 bg-slate-700 border border-slate-600 rounded text-xs"
+        >
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}x
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 当前步骤 */}
+      <div className="flex items-center gap-2 text-sm">
+        <span className="w-2 h-2 rounded-full bg-amber-500" />
+        <span className="font-medium">{frame.step.nodeName}</span>
+        <span className="text-xs text-slate-400">({frame.step.nodeType})</span>
+        <span
+          className={`text-xs px-1.5 py-0.5 rounded ${
+            frame.step.action === 'enter' ? 'bg-blue-900 text-blue-300' : 'bg-green-900 text-green-300'
+          }`}
+        >
+          {frame.step.action === 'enter' ? '进入' : '退出'}
+        </span>
+        <span className="text-xs text-slate-500">{new Date(frame.step.timestamp).toLocaleTimeString()}</span>
+        {frame.step.error && <span className="text-xs text-red-400">出错</span>}
+      </div>
+
+      {/* 该步的变量 */}
+      <div className="flex-1 overflow-y-auto">
+        {variables.length === 0 ? (
+          <p className="text-slate-400 text-sm">此时没有变量</p>
+        ) : (
+          variables.map(([key, value]) => {
+            const changed = frame.changedKeys.includes(key);
+            return (
+              <div
+                key={key}
+                className={`flex items-center justify-between py-1.5 px-2 border-b border-slate-700 ${
+                  changed ? 'bg-amber-900/30' : ''
+                }`}
+              >
+                <span className={`font-mono text-sm ${changed ? 'text-amber-300' : ''}`}>{key}</span>
+                <span className="text-sm text-slate-400 font-mono truncate ml-4">{JSON.stringify(value)}</span>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,57 +11,111 @@ import {
   ZoomIn,
   ZoomOut,
   Maximize,
+  X,
+  AlertCircle,
+  AlertTriangle,
+  FolderOpen,
+  PlayCircle,
 } from 'lucide-react';
 import { useReactFlow } from '@xyflow/react';
+import { useNavigate } from 'react-router-dom';
 import { useDesignerStore } from '../../stores/designerStore';
+import { exportDesign, getErrorMessage } from '../../api/client';
 
 interface ToolbarProps {
   onToggleDebug: () => void;
+  onDebugRun: () => void;
+  onOpenDrafts: () => void;
 }
 
-export default function Toolbar({ onToggleDebug }: ToolbarProps) {
-  const { design, toDesignerNodes, toDesignerEdges } = useDesignerStore();
+// 操作结果提示
+interface ToolbarNotice {
+  type: 'success' | 'error' | 'warning';
+  title: string;
+  details?: string[];
+}
+
+const noticeStyles: Record<ToolbarNotice['type'], { className: string; icon: React.ElementType }> = {
+  success: { className: 'bg-green-50 border-green-200 text-green-700', icon: CheckCircle },
+  error: { className: 'bg-red-50 border-red-200 text-red-700', icon: AlertCircle },
+  warning: { className: 'bg-amber-50 border-amber-200 text-amber-700', icon: AlertTriangle },
+};
+
+export default function Toolbar({ onToggleDebug, onDebugRun, onOpenDrafts }: ToolbarProps) {
+  const {
+    design,
+    saving,
+    loading,
+    saveDraft,
+    validate,
+    validateLocal,
+    liveValidation,
+    setLiveValidation,
+    publish,
+    importDraft,
+    past,
+    future,
+    undo,
+    redo,
+  } = useDesignerStore();
   const { zoomIn, zoomOut, fitView } = useReactFlow();
-  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
   const [validating, setValidating] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [notice, setNotice] = useState<ToolbarNotice | null>(null);
+
+  const requireDesign = () => {
+    if (!design) {
+      setNotice({ type: 'error', title: '尚未打开草稿', details: ['请先新建或打开一个工作流草稿'] });
+      return false;
+    }
+    return true;
+  };
 
   // 保存设计
   const handleSave = async () => {
-    if (!design) return;
-    setSaving(true);
+    if (!requireDesign()) return;
     try {
-      const nodes = toDesignerNodes();
-      const edges = toDesignerEdges();
-      await fetch(`/api/v1/designer/drafts/${design.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ nodes, edges }),
-      });
-      alert('保存成功');
-    } catch (error) {
-      alert('保存失败');
-    } finally {
-      setSaving(false);
+      await saveDraft();
+      setNotice({ type: 'success', title: '保存成功' });
+    } catch (err) {
+      setNotice({ type: 'error', title: '保存失败', details: [getErrorMessage(err)] });
     }
   };
 
-  // 验证设计
+  // 验证设计（先保存，确保后端校验的是当前画布；保存失败时只做本地校验）
   const handleValidate = async () => {
-    if (!design) return;
     setValidating(true);
     try {
-      const response = await fetch(`/api/v1/designer/drafts/${design.id}/validate`, {
-        method: 'POST',
-      });
-      const result = await response.json();
-      if (result.data?.valid) {
-        alert('验证通过');
+      let result;
+      let saveError: string | null = null;
+      if (design) {
+        try {
+          await saveDraft();
+        } catch (err) {
+          saveError = getErrorMessage(err);
+        }
+      }
+      if (design && !saveError) {
+        result = await validate();
+      } else {
+        result = validateLocal();
+      }
+
+      // 问题明细显示在画布的问题列表中
+      const details: string[] = [];
+      if (saveError) details.push(`保存失败：${saveError}`);
+      if (useDesignerStore.getState().validationSource === 'local') details.push('后端不可用，已使用本地结构校验');
+
+      if (result.valid && result.warnings.length === 0) {
+        setNotice({ type: 'success', title: '验证通过', details });
+      } else if (result.valid) {
+        setNotice({ type: 'warning', title: `验证通过，${result.warnings.length} 个警告`, details });
       } else {
-        const errors = result.data?.errors?.map((e: { message: string }) => e.message).join('\n');
-        alert(`验证失败:\n${errors}`);
+        setNotice({ type: 'error', title: `验证失败：${result.errors.length} 个错误`, details });
       }
-    } catch (error) {
-      alert('验证请求失败');
+    } catch (err) {
+      setNotice({ type: 'error', title: '验证失败', details: [getErrorMessage(err)] });
     } finally {
       setValidating(false);
     }
@@ -69,42 +123,38 @@ export default function Toolbar({ onToggleDebug }: ToolbarProps) {
 
   // 发布设计
   const handlePublish = async () => {
-    if (!design) return;
+    if (!requireDesign()) return;
     if (!confirm('确定要发布此工作流吗？')) return;
 
+    setPublishing(true);
     try {
-      const response = await fetch(`/api/v1/designer/drafts/${design.id}/publish`, {
-        method: 'POST',
-      });
-      const result = await response.json();
-      if (result.data?.id) {
-        alert(`发布成功！工作流ID: ${result.data.id}`);
-      } else {
-        alert('发布失败');
-      }
-    } catch (error) {
-      alert('发布请求失败');
+      await saveDraft();
+      const id = await publish();
+      setNotice({ type: 'success', title: '发布成功', details: [`工作流ID: ${id}`] });
+    } catch (err) {
+      setNotice({ type: 'error', title: '发布失败', details: [getErrorMessage(err)] });
+    } finally {
+      setPublishing(false);
     }
   };
 
   // 导出设计
   const handleExport = async () => {
-    if (!design) return;
+    if (!requireDesign() || !design) return;
     try {
-      const response = await fetch(`/api/v1/designer/drafts/${design.id}/export`);
-      const blob = await response.blob();
+      const blob = await exportDesign(design.id);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
       a.download = `${design.name || 'workflow'}.json`;
       a.click();
       URL.revokeObjectURL(url);
-    } catch (error) {
-      alert('导出失败');
+    } catch (err) {
+      setNotice({ type: 'error', title: '导出失败', details: [getErrorMessage(err)] });
     }
   };
 
-  // 导入设计
+  // 导入设计并加载到画布
   const handleImport = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -113,32 +163,37 @@ export default function Toolbar({ onToggleDebug }: ToolbarProps) {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        try {
-          const response = await fetch('/api/v1/designer/import', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: event.target?.result as string,
-          });
-          const result = await response.json();
-          if (result.data?.id) {
-            alert(`导入成功！设计ID: ${result.data.id}`);
-            // TODO: 加载导入的设计
-          }
-        } catch (error) {
-          alert('导入失败');
-        }
-      };
-      reader.readAsText(file);
+      try {
+        const content = await file.text();
+        JSON.parse(content);
+        const imported = await importDraft(content);
+        // 地址切到新草稿，刷新页面时打开的是导入的设计
+        navigate(`/workflow/${imported.id}`);
+        fitView();
+        setNotice({ type: 'success', title: '导入成功', details: [`已打开 ${imported.name || imported.id}`] });
+      } catch (err) {
+        const message = err instanceof SyntaxError ? '文件不是有效的 JSON' : getErrorMessage(err);
+        setNotice({ type: 'error', title: '导入失败', details: [message] });
+      }
     };
     input.click();
   };
 
+  const NoticeIcon = notice ? noticeStyles[notice.type].icon : null;
+
   return (
-    <div className="toolbar h-12 px-4 flex items-center justify-between bg-white border-b border-gray-200">
+    <div className="toolbar relative h-12 px-4 flex items-center justify-between bg-white border-b border-gray-200">
       {/* 左侧：文件操作 */}
       <div className="flex items-center gap-2">
+        <button
+          onClick={onOpenDrafts}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded hover:bg-gray-50 max-w-[200px]"
+          title="打开草稿"
+        >
+          <FolderOpen size={16} className="flex-shrink-0" />
+          <span className="truncate">{design ? design.name : '打开草稿'}</span>
+        </button>
+
         <button
           onClick={handleSave}
           disabled={saving}
@@ -150,6 +205,7 @@ export default function Toolbar({ onToggleDebug }: ToolbarProps) {
 
         <button
           onClick={handleImport}
+          disabled={loading}
           className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
         >
           <Upload size={16} />
@@ -168,37 +224,50 @@ export default function Toolbar({ onToggleDebug }: ToolbarProps) {
 
         <button
           onClick={handleValidate}
-          disabled={validating}
+          disabled={validating || saving}
           className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
         >
           <CheckCircle size={16} />
           {validating ? '验证中...' : '验证'}
         </button>
 
+        <label className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer select-none" title="编辑时自动运行本地结构校验">
+          <input
+            type="checkbox"
+            checked={liveValidation}
+            onChange={(e) => setLiveValidation(e.target.checked)}
+            className="rounded"
+          />
+          实时校验
+        </label>
+
         <button
           onClick={handlePublish}
-          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-500 text-white rounded hover:bg-green-600"
+          disabled={publishing || saving}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
         >
           <Play size={16} />
-          发布
+          {publishing ? '发布中...' : '发布'}
         </button>
       </div>
 
       {/* 中间：撤销/重做 */}
       <div className="flex items-center gap-1">
         <button
-          className="p-2 rounded hover:bg-gray-100"
-          title="撤销"
-          disabled
+          onClick={undo}
+          className="p-2 rounded hover:bg-gray-100 disabled:hover:bg-transparent"
+          title={past.length > 0 ? `撤销 ${past[past.length - 1].label} (Ctrl+Z)` : '撤销'}
+          disabled={past.length === 0}
         >
-          <Undo size={18} className="text-gray-400" />
+          <Undo size={18} className={past.length > 0 ? 'text-gray-700' : 'text-gray-400'} />
         </button>
         <button
-          className="p-2 rounded hover:bg-gray-100"
-          title="重做"
-          disabled
+          onClick={redo}
+          className="p-2 rounded hover:bg-gray-100 disabled:hover:bg-transparent"
+          title={future.length > 0 ? `重做 ${future[0].label} (Ctrl+Shift+Z)` : '重做'}
+          disabled={future.length === 0}
         >
-          <Redo size={18} className="text-gray-400" />
+          <Redo size={18} className={future.length > 0 ? 'text-gray-700' : 'text-gray-400'} />
         </button>
       </div>
 
@@ -228,6 +297,14 @@ export default function Toolbar({ onToggleDebug }: ToolbarProps) {
 
         <div className="w-px h-6 bg-gray-300 mx-2" />
 
+        <button
+          onClick={() => requireDesign() && onDebugRun()}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+          title="填写输入变量后启动调试"
+        >
+          <PlayCircle size={16} />
+          调试运行
+        </button>
         <button
           onClick={onToggleDebug}
           className="flex items-center gap-1 px-3 py-1.5 text-sm bg-slate-700 text-white rounded hover:bg-slate-800"
@@ -236,6 +313,30 @@ export default function Toolbar({ onToggleDebug }: ToolbarProps) {
           调试
         </button>
       </div>
+
+      {/* 操作结果 */}
+      {notice && NoticeIcon && (
+        <div
+          className={`absolute top-full left-4 mt-2 z-20 w-96 border rounded-lg shadow-lg p-3 text-sm ${noticeStyles[notice.type].className}`}
+        >
+          <div className="flex items-start gap-2">
+            <NoticeIcon size={16} className="mt-0.5 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium">{notice.title}</div>
+              {notice.details && notice.details.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs list-disc list-inside max-h-40 overflow-y-auto">
+                  {notice.details.map((detail, i) => (
+                    <li key={i} className="break-all">{detail}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <button onClick={() => setNotice(null)} className="opacity-60 hover:opacity-100">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,226 @@
+import { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, Pencil, Check, X } from 'lucide-react';
+import { useDebugStore } from '../../stores/debugStore';
+import { useDesignerStore } from '../../stores/designerStore';
+import { getErrorMessage } from '../../api/client';
+import type { Variable } from '../../types/workflow';
+import {
+  diffVariablePaths,
+  findVariableDefinition,
+  formatPath,
+  formatVariableInput,
+  parseVariableInput,
+  setAtPath,
+  valueType,
+  type VariablePath,
+} from '../../utils/variableInspector';
+
+const valueColors: Record<string, string> = {
+  string: 'text-green-300',
+  number: 'text-blue-300',
+  boolean: 'text-purple-300',
+  null: 'text-slate-500',
+};
+
+function ValuePreview({ value }: { value: unknown }) {
+  const type = valueType(value);
+  if (type === 'array') return <span className="text-slate-400">Array({(value as unknown[]).length})</span>;
+  if (type === 'object') return <span className="text-slate-400">{`{${Object.keys(value as object).length}}`}</span>;
+  return (
+    <span className={valueColors[type]}>{type === 'string' ? JSON.stringify(value) : String(value)}</span>
+  );
+}
+
+interface VariableRowProps {
+  name: string;
+  value: unknown;
+  path: VariablePath;
+  // 只有顶层变量对应设计中的定义
+  definition?: Variable;
+  changed: Set<string>;
+  editable: boolean;
+  onSave: (path: VariablePath, value: unknown) => Promise<void>;
+}
+
+function VariableRow({ name, value, path, definition, changed, editable, onSave }: VariableRowProps) {
+  const depth = path.length - 1;
+  const type = valueType(value);
+  const isContainer = type === 'object' || type === 'array';
+  const [expanded, setExpanded] = useState(depth < 1);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isChanged = changed.has(formatPath(path));
+  // 有定义时按定义的类型校验，否则保持当前值的类型
+  const targetType = definition?.type || type;
+
+  const startEdit = () => {
+    setDraft(formatVariableInput(value));
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    const result = parseVariableInput(draft, targetType, definition?.required);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(path, result.value);
+      setEditing(false);
+    } catch (err) {
+      setError(getErrorMessage(err, '修改变量失败'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') setEditing(false);
+    // 多行 JSON 用 Ctrl+Enter 提交
+    if (e.key === 'Enter' && (!isContainer || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  const children: [string, unknown, string | number][] = !isContainer
+    ? []
+    : Array.isArray(value)
+      ? value.map((item, index) => [`[${index}]`, item, index])
+      : Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, item, key]);
+
+  return (
+    <>
+      <div
+        className={`group flex items-start gap-1 py-1 pr-2 border-b border-slate-700/60 ${
+          isChanged ? 'bg-amber-900/30' : ''
+        }`}
+        style={{ paddingLeft: depth * 14 + 4 }}
+      >
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={`mt-0.5 text-slate-500 ${isContainer ? 'hover:text-slate-200' : 'invisible'}`}
+        >
+          {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        </button>
+        <span
+          className={`font-mono text-sm shrink-0 ${isChanged ? 'text-amber-300' : ''}`}
+          title={definition?.description || formatPath(path)}
+        >
+          {name}
+          {definition?.required && <span className="text-red-400">*</span>}
+        </span>
+        {definition && <span className="text-xs text-slate-500 mt-0.5">{definition.type}</span>}
+        <span className="text-slate-500 mx-1">:</span>
+
+        {editing ? (
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start gap-1">
+              {isContainer || targetType === 'object' || targetType === 'array' ? (
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  rows={Math.min(8, draft.split('\n').length)}
+                  autoFocus
+                  className="flex-1 px-2 py-1 bg-slate-900 border border-slate-600 rounded font-mono text-xs"
+                />
+              ) : (
+                <input
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  autoFocus
+                  className="flex-1 px-2 py-0.5 bg-slate-900 border border-slate-600 rounded font-mono text-xs"
+                />
+              )}
+              <button onClick={handleSave} disabled={saving} className="p-1 text-green-400 hover:text-green-300">
+                <Check size={14} />
+              </button>
+              <button onClick={() => setEditing(false)} className="p-1 text-slate-400 hover:text-slate-200">
+                <X size={14} />
+              </button>
+            </div>
+            {error && <p className="text-xs text-red-400 mt-0.5">{error}</p>}
+          </div>
+        ) : (
+          <>
+            <span className="flex-1 min-w-0 truncate font-mono text-sm" onDoubleClick={editable ? startEdit : undefined}>
+              <ValuePreview value={value} />
+            </span>
+            {editable && (
+              <button
+                onClick={startEdit}
+                className="p-0.5 text-slate-500 hover:text-slate-200 opacity-0 group-hover:opacity-100"
+                title="修改"
+              >
+                <Pencil size={12} />
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      {isContainer &&
+        expanded &&
+        children.map(([label, item, segment]) => (
+          <VariableRow
+            key={label}
+            name={label}
+            value={item}
+            path={[...path, segment]}
+            changed={changed}
+            editable={editable}
+            onSave={onSave}
+          />
+        ))}
+    </>
+  );
+}
+
+// 变量树：嵌套对象和数组可展开，暂停时可修改，这一步改变的变量高亮
+export default function VariableInspector() {
+  const { session, variablesBeforeStep, setVariable } = useDebugStore();
+  const definitions = useDesignerStore((s) => s.design?.variables);
+  const variables = useMemo(() => session?.variables || {}, [session?.variables]);
+
+  const changed = useMemo(
+    () => (variablesBeforeStep ? diffVariablePaths(variablesBeforeStep, variables) : new Set<string>()),
+    [variablesBeforeStep, variables]
+  );
+
+  // 修改嵌套值时整体提交所在的顶层变量
+  const handleSave = async (path: VariablePath, value: unknown) => {
+    const key = path[0] as string;
+    await setVariable(key, setAtPath(variables[key], path.slice(1), value));
+  };
+
+  const entries = Object.entries(variables);
+  if (entries.length === 0) {
+    return <p className="text-slate-400 text-sm">暂无变量</p>;
+  }
+
+  const editable = session?.status === 'paused';
+
+  return (
+    <div>
+      {!editable && <p className="text-xs text-slate-500 mb-1">暂停时可双击值进行修改</p>}
+      {entries.map(([key, value]) => (
+        <VariableRow
+          key={key}
+          name={key}
+          value={value}
+          path={[key]}
+          definition={findVariableDefinition(definitions, key)}
+          changed={changed}
+          editable={editable}
+          onSave={handleSave}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useDebugStore } from '../../stores/debugStore';
+import { evaluateExpression } from '../../utils/expression';
+
+type WatchResult = { ok: true; value: unknown } | { ok: false; error: string };
+
+function evaluate(expression: string, scope: Record<string, unknown>): WatchResult {
+  try {
+    return { ok: true, value: evaluateExpression(expression, scope) };
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  }
+}
+
+const formatResult = (value: unknown) => (value === undefined ? 'undefined' : JSON.stringify(value));
+
+// 监视表达式：变量每次更新（单步、命中断点、变量事件）后重新求值
+export default function WatchPanel() {
+  const { session, variablesBeforeStep, watchExpressions, addWatch, removeWatch } = useDebugStore();
+  const [input, setInput] = useState('');
+  const variables = session?.variables;
+
+  const results = useMemo(
+    () =>
+      watchExpressions.map((expression) => {
+        const current = evaluate(expression, variables || {});
+        const previous = variablesBeforeStep ? evaluate(expression, variablesBeforeStep) : null;
+        const changed =
+          !!previous &&
+          (previous.ok !== current.ok ||
+            (current.ok && previous.ok && formatResult(previous.value) !== formatResult(current.value)));
+        return { expression, current, changed };
+      }),
+    [watchExpressions, variables, variablesBeforeStep]
+  );
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    addWatch(input.trim());
+    setInput('');
+  };
+
+  return (
+    <div className="mb-3">
+      <div className="text-xs font-medium text-slate-400 mb-1">监视</div>
+      {results.map(({ expression, current, changed }, index) => (
+        <div
+          key={`${index}-${expression}`}
+          className={`group flex items-center gap-2 py-1 px-1 border-b border-slate-700/60 font-mono text-sm ${
+            changed ? 'bg-amber-900/30' : ''
+          }`}
+        >
+          <span className={`shrink-0 ${changed ? 'text-amber-300' : ''}`}>{expression}</span>
+          <span className="text-slate-500">=</span>
+          {current.ok ? (
+            <span className="flex-1 min-w-0 truncate text-slate-300">{formatResult(current.value)}</span>
+          ) : (
+            <span className="flex-1 min-w-0 truncate text-xs text-red-400">{current.error}</span>
+          )}
+          <button
+            onClick={() => removeWatch(index)}
+            className="p-0.5 text-slate-500 hover:text-slate-200 opacity-0 group-hover:opacity-100"
+            title="移除"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      <form onSubmit={handleAdd} className="flex items-center gap-1 mt-1">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="添加监视表达式，如 order.amount > 1000"
+          className="flex-1 px-2 py-1 bg-slate-700 border border-slate-600 rounded font-mono text-xs"
+        />
+        <button type="submit" className="p-1 text-slate-400 hover:text-slate-200" title="添加">
+          <Plus size={14} />
+        </button>
+      </form>
+    </div>
+  );
+}
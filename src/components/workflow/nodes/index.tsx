@@ -9,8 +9,93 @@ import {
   GitBranch,
   GitMerge,
   Layers,
+  AlertCircle,
+  AlertTriangle,
 } from 'lucide-react';
 import classNames from 'classnames';
+import { useDesignerStore } from '../../../stores/designerStore';
+import { useBreakpointStore } from '../../../stores/breakpointStore';
+import { getErrorMessage } from '../../../api/client';
+import { isLogpoint } from '../../../utils/breakpoints';
+
+// 验证问题角标
+const ValidationBadge = memo(({ nodeId }: { nodeId: string }) => {
+  const validationResult = useDesignerStore((s) => s.validationResult);
+  if (!validationResult) return null;
+
+  const errors = validationResult.errors.filter((e) => e.nodeId === nodeId && !e.edgeId);
+  const warnings = validationResult.warnings.filter((w) => w.nodeId === nodeId);
+  if (errors.length === 0 && warnings.length === 0) return null;
+
+  const isError = errors.length > 0;
+  const Icon = isError ? AlertCircle : AlertTriangle;
+  return (
+    <div
+      className={classNames(
+        'absolute -top-2 -right-2 z-10 flex items-center gap-0.5 px-1 rounded-full text-[10px] font-bold text-white shadow',
+        isError ? 'bg-red-500' : 'bg-amber-500'
+      )}
+      title={[...errors, ...warnings].map((i) => i.message).join('\n')}
+    >
+      <Icon size={10} />
+      {errors.length + warnings.length}
+    </div>
+  );
+});
+
+// 断点圆点：点击添加/移除断点，右键编辑条件；没有断点时悬停节点才显示
+const BreakpointGutter = memo(({ nodeId }: { nodeId: string }) => {
+  const breakpoint = useBreakpointStore((s) => s.breakpoints[nodeId]);
+  const toggle = useBreakpointStore((s) => s.toggle);
+  const openEditor = useBreakpointStore((s) => s.openEditor);
+
+  const handleClick = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    toggle(nodeId).catch((err) => alert(getErrorMessage(err, '同步断点失败')));
+  };
+
+  const handleContextMenu = (event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    openEditor(nodeId);
+  };
+
+  const logpoint = breakpoint && isLogpoint(breakpoint);
+  const conditional = breakpoint && (breakpoint.condition || breakpoint.hitCondition);
+  const title = !breakpoint
+    ? '点击添加断点，右键设置条件'
+    : [
+        logpoint ? `日志点: ${breakpoint.logMessage}` : '断点',
+        breakpoint.condition && `条件: ${breakpoint.condition}`,
+        breakpoint.hitCondition && `命中次数: ${breakpoint.hitCondition}`,
+        !breakpoint.enabled && '（已禁用）',
+        '点击移除，右键编辑',
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      onContextMenu={handleContextMenu}
+      title={title}
+      className={classNames(
+        'nodrag absolute -left-5 top-1/2 -translate-y-1/2 z-10 w-3 h-3 flex items-center justify-center border-2',
+        logpoint ? 'rotate-45 rounded-sm' : 'rounded-full',
+        breakpoint
+          ? breakpoint.enabled
+            ? logpoint
+              ? 'bg-purple-500 border-purple-500'
+              : 'bg-red-500 border-red-500'
+            : 'bg-white border-gray-400'
+          : 'bg-red-300 border-red-300 opacity-0 group-hover:opacity-60'
+      )}
+    >
+      {conditional && <span className="block w-1.5 h-0.5 bg-white" />}
+    </button>
+  );
+});
 
 // 基础节点组件
 interface BaseNodeProps extends NodeProps {
@@ -22,6 +107,7 @@ interface BaseNodeProps extends NodeProps {
 
 const BaseNode = memo(
   ({
+    id,
     data,
     selected,
     icon,
@@ -32,11 +118,13 @@ const BaseNode = memo(
     return (
       <div
         className={classNames(
-          'px-4 py-2 rounded-lg shadow-md min-w-[120px] text-center',
+          'group relative px-4 py-2 rounded-lg shadow-md min-w-[120px] text-center',
           className,
           { 'ring-2 ring-blue-500': selected }
         )}
       >
+        <ValidationBadge nodeId={id} />
+        <BreakpointGutter nodeId={id} />
         {showInputHandle && (
           <Handle
             type="target"
@@ -109,36 +197,40 @@ export const ScriptTaskNode = memo((props: NodeProps) => (
 
 // 网关基础组件
 const GatewayNode = memo(
-  ({ selected, icon, className }: NodeProps & { icon: React.ReactNode; className?: string }) => {
+  ({ id, selected, icon, className }: NodeProps & { icon: React.ReactNode; className?: string }) => {
     return (
-      <div
-        className={classNames(
-          'w-12 h-12 flex items-center justify-center shadow-md',
-          className,
-          { 'ring-2 ring-blue-500': selected }
-        )}
-        style={{ transform: 'rotate(45deg)' }}
-      >
-        <Handle
-          type="target"
-          position={Position.Top}
-          className="w-3 h-3 bg-gray-400 border-2 border-white"
-          style={{ transform: 'rotate(-45deg)' }}
-        />
-        <div style={{ transform: 'rotate(-45deg)' }}>{icon}</div>
-        <Handle
-          type="source"
-          position={Position.Bottom}
-          className="w-3 h-3 bg-gray-400 border-2 border-white"
-          style={{ transform: 'rotate(-45deg)' }}
-        />
-        <Handle
-          type="source"
-          position={Position.Right}
-          id="right"
-          className="w-3 h-3 bg-gray-400 border-2 border-white"
-          style={{ transform: 'rotate(-45deg)' }}
-        />
+      <div className="group relative">
+        <ValidationBadge nodeId={id} />
+        <BreakpointGutter nodeId={id} />
+        <div
+          className={classNames(
+            'w-12 h-12 flex items-center justify-center shadow-md',
+            className,
+            { 'ring-2 ring-blue-500': selected }
+          )}
+          style={{ transform: 'rotate(45deg)' }}
+        >
+          <Handle
+            type="target"
+            position={Position.Top}
+            className="w-3 h-3 bg-gray-400 border-2 border-white"
+            style={{ transform: 'rotate(-45deg)' }}
+          />
+          <div style={{ transform: 'rotate(-45deg)' }}>{icon}</div>
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            className="w-3 h-3 bg-gray-400 border-2 border-white"
+            style={{ transform: 'rotate(-45deg)' }}
+          />
+          <Handle
+            type="source"
+            position={Position.Right}
+            id="right"
+            className="w-3 h-3 bg-gray-400 border-2 border-white"
+            style={{ transform: 'rotate(-45deg)' }}
+          />
+        </div>
       </div>
     );
   }
@@ -1,2 +1 @@
-// Placeholder for custom hooks
-export {};
+export { useUndoRedoShortcuts } from './useUndoRedoShortcuts';
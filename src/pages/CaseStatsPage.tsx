@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BarChart3, RefreshCw, AlertTriangle, ExternalLink } from 'lucide-react';
+import { getCaseDecisionTree } from '../api/client';
+import DecisionTreeStatsCard from '../components/case/DecisionTreeStatsCard';
+import {
+  computeDecisionTreeStats,
+  aggregateDecisionTreeStats,
+  formatDuration,
+  groupStallNodesByDefinition,
+  AggregatedTreeStats,
+} from '../utils/decisionTreeStats';
+import type { DecisionTree, DecisionTreeStats } from '../types/workflow';
+
+interface CaseStatsRow {
+  caseId: string;
+  tree: DecisionTree;
+  stats: DecisionTreeStats;
+}
+
+// 解析输入的案件ID（逗号、空白或换行分隔）
+function parseCaseIds(input: string): string[] {
+  return [...new Set(input.split(/[\s,，]+/).map((s) => s.trim()).filter(Boolean))];
+}
+
+export default function CaseStatsPage() {
+  const [input, setInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [rows, setRows] = useState<CaseStatsRow[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [aggregate, setAggregate] = useState<AggregatedTreeStats | null>(null);
+
+  const handleAnalyze = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const caseIds = parseCaseIds(input);
+    if (caseIds.length === 0) return;
+
+    setLoading(true);
+    try {
+      const trees = await Promise.all(caseIds.map((id) => getCaseDecisionTree(id)));
+      const loaded: CaseStatsRow[] = [];
+      const notFound: string[] = [];
+      trees.forEach((tree, i) => {
+        if (tree) {
+          loaded.push({ caseId: caseIds[i], tree, stats: computeDecisionTreeStats(tree) });
+        } else {
+          notFound.push(caseIds[i]);
+        }
+      });
+      setRows(loaded);
+      setMissing(notFound);
+      setAggregate(aggregateDecisionTreeStats(loaded.map((r) => r.tree)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const stallGroups = aggregate ? groupStallNodesByDefinition(aggregate.stallNodes) : [];
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-indigo-100 rounded-lg">
+          <BarChart3 className="w-6 h-6 text-indigo-600" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">案件流转统计</h1>
+          <p className="text-sm text-gray-500">批量分析案件决策树，定位停滞节点</p>
+        </div>
+      </div>
+
+      {/* Input */}
+      <form onSubmit={handleAnalyze} className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-2">案件ID（逗号或换行分隔）</label>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          placeholder="case-001, case-002"
+        />
+        <div className="flex justify-end mt-3">
+          <button
+            type="submit"
+            disabled={loading || parseCaseIds(input).length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? '分析中...' : '开始分析'}
+          </button>
+        </div>
+      </form>
+
+      {missing.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+          <div className="text-sm text-yellow-700">
+            {missing.length} 个案件无法加载决策树：
+            <span className="font-mono ml-1">{missing.join(', ')}</span>
+          </div>
+        </div>
+      )}
+
+      {aggregate && aggregate.caseCount > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <div className="space-y-4">
+            <DecisionTreeStatsCard stats={aggregate.totals} title={`汇总（${aggregate.caseCount} 个案件）`} />
+            <div className="bg-white border border-gray-200 rounded-lg p-4 grid grid-cols-3 gap-2 text-center text-sm">
+              <div>
+                <div className="font-semibold text-gray-900">{aggregate.completedCount}</div>
+                <div className="text-xs text-gray-500">已完成</div>
+              </div>
+              <div>
+                <div className="font-semibold text-gray-900">{Math.round(aggregate.averageCompletionRate * 100)}%</div>
+                <div className="text-xs text-gray-500">平均完成率</div>
+              </div>
+              <div>
+                <div className="font-semibold text-gray-900">{formatDuration(aggregate.averageDurationMs)}</div>
+                <div className="text-xs text-gray-500">平均耗时</div>
+              </div>
+            </div>
+          </div>
+
+          {/* 停滞节点 */}
+          <div className="lg:col-span-2 bg-white border border-gray-200 rounded-lg p-4">
+            <h3 className="font-semibold text-gray-900 mb-3">停滞节点</h3>
+            {aggregate.stallNodes.length === 0 ? (
+              <p className="text-sm text-gray-500">所有案件均已完成</p>
+            ) : (
+              <div className="space-y-5">
+                {stallGroups.map((group) => (
+                  <div key={group.definitionId}>
+                    <div className="flex items-center justify-between text-xs text-gray-500 mb-2 pb-1 border-b border-gray-100">
+                      <span>
+                        流程 <span className="font-mono text-gray-700">{group.definitionId || '-'}</span>
+                      </span>
+                      <span>{group.caseCount} 个未完成案件</span>
+                    </div>
+                    <div className="space-y-3">
+                      {group.nodes.map((node) => (
+                        <div key={node.nodeId}>
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <span className="text-gray-900">
+                              {node.nodeName || node.nodeId}
+                              <span className="ml-2 text-xs text-gray-400 font-mono">{node.nodeId}</span>
+                            </span>
+                            <span className="text-gray-600">
+                              {node.count} 个案件（{Math.round((node.count / group.caseCount) * 100)}%）
+                              {node.failedCount > 0 && (
+                                <span className="ml-1 text-red-600">失败 {node.failedCount}</span>
+                              )}
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${node.failedCount > 0 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                              style={{ width: `${(node.count / group.caseCount) * 100}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-2.5 text-left text-sm font-medium text-gray-600">案件</th>
+                <th className="px-4 py-2.5 text-left text-sm font-medium text-gray-600">状态</th>
+                <th className="px-4 py-2.5 text-left text-sm font-medium text-gray-600">完成率</th>
+                <th className="px-4 py-2.5 text-left text-sm font-medium text-gray-600">失败</th>
+                <th className="px-4 py-2.5 text-left text-sm font-medium text-gray-600">耗时</th>
+                <th className="px-4 py-2.5" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row) => (
+                <tr key={row.caseId} className="hover:bg-gray-50">
+                  <td className="px-4 py-2.5 text-sm font-mono text-gray-900">{row.caseId}</td>
+                  <td className="px-4 py-2.5 text-sm text-gray-600">{row.tree.status}</td>
+                  <td className="px-4 py-2.5 text-sm text-gray-600">{Math.round(row.stats.completionRate * 100)}%</td>
+                  <td className="px-4 py-2.5 text-sm">
+                    {row.stats.failedNodes > 0 ? (
+                      <span className="text-red-600">{row.stats.failedNodes}</span>
+                    ) : (
+                      <span className="text-gray-400">0</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2.5 text-sm text-gray-600">{formatDuration(row.stats.totalDurationMs)}</td>
+                  <td className="px-4 py-2.5 text-right">
+                    <Link
+                      to={`/cases/${encodeURIComponent(row.caseId)}/trace`}
+                      className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      <ExternalLink size={12} />
+                      追踪
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { ReactFlowProvider } from '@xyflow/react';
+import { GitBranch, RefreshCw, XCircle, FileText, CheckCircle, Clock } from 'lucide-react';
+import { useDebugStore } from '../stores/debugStore';
+import DecisionTreeCanvas, { decisionStatusConfig } from '../components/case/DecisionTreeCanvas';
+import DecisionTreeStatsCard from '../components/case/DecisionTreeStatsCard';
+import { computeDecisionTreeStats } from '../utils/decisionTreeStats';
+import { formatTimestamp } from '../utils';
+import { findAuditEntriesNear } from '../utils/asUserAudit';
+import { useAsUserAudit } from '../components/AsUserAuditModal';
+import type { CaseWithDebugInfo, DecisionNode, DecisionNodeStatus } from '../types/workflow';
+
+// 字段行
+function FieldRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-3 py-1.5 text-sm">
+      <span className="text-gray-500 flex-shrink-0">{label}</span>
+      <span className="text-gray-900 text-right break-all">{children}</span>
+    </div>
+  );
+}
+
+// 案件信息卡片
+function CaseInfoCard({ info }: { info: CaseWithDebugInfo }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="font-semibold text-gray-900 mb-1 flex items-center gap-2">
+        <FileText className="w-4 h-4 text-blue-600" />
+        {info.title || info.id}
+      </h3>
+      {info.description && <p className="text-sm text-gray-600 mb-2">{info.description}</p>}
+      <div className="divide-y divide-gray-100">
+        <FieldRow label="案件ID">
+          <span className="font-mono">{info.id}</span>
+        </FieldRow>
+        <FieldRow label="当前阶段">
+          <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-700 text-xs font-medium">{info.stage}</span>
+        </FieldRow>
+        <FieldRow label="提交人">{info.submitterId}</FieldRow>
+        <FieldRow label="类别">{info.categoryId}</FieldRow>
+        <FieldRow label="学年">{info.academicYear}</FieldRow>
+        <FieldRow label="得分">{info.score ?? '-'}</FieldRow>
+        <FieldRow label="最终得分">{info.finalScore ?? '-'}</FieldRow>
+        <FieldRow label="已确认">
+          {info.isConfirmed ? (
+            <CheckCircle className="w-4 h-4 text-green-500 inline" />
+          ) : (
+            <Clock className="w-4 h-4 text-gray-400 inline" />
+          )}
+        </FieldRow>
+        <FieldRow label="创建时间">{formatTimestamp(info.createdAt)}</FieldRow>
+        <FieldRow label="更新时间">{formatTimestamp(info.updatedAt)}</FieldRow>
+      </div>
+      {info.formData && Object.keys(info.formData).length > 0 && (
+        <div className="mt-3">
+          <h4 className="text-xs font-medium text-gray-500 mb-1">表单数据</h4>
+          <pre className="text-xs text-gray-600 bg-gray-50 rounded p-2 overflow-x-auto">
+            {JSON.stringify(info.formData, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 选中节点详情
+function NodeDetailCard({ node }: { node: DecisionNode }) {
+  const config = decisionStatusConfig[node.status] || decisionStatusConfig.pending;
+  const auditEntries = useAsUserAudit();
+  // 本地审计日志中与模拟节点时间接近的写请求
+  const relatedRequests =
+    node.isSimulated && node.asUserId !== undefined && node.executedAt
+      ? findAuditEntriesNear(auditEntries, String(node.asUserId), node.executedAt)
+      : [];
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="font-semibold text-gray-900 mb-2">{node.name || node.id}</h3>
+      <div className="divide-y divide-gray-100">
+        <FieldRow label="节点ID">
+          <span className="font-mono">{node.id}</span>
+        </FieldRow>
+        <FieldRow label="类型">{node.type}</FieldRow>
+        <FieldRow label="状态">
+          <span className={`px-2 py-0.5 rounded border text-xs ${config.className}`}>{config.label}</span>
+        </FieldRow>
+        {node.executedAt && <FieldRow label="执行时间">{new Date(node.executedAt).toLocaleString()}</FieldRow>}
+        {node.duration !== undefined && <FieldRow label="耗时">{node.duration}ms</FieldRow>}
+        {node.isSimulated && (
+          <FieldRow label="模拟执行">
+            As-User {node.asUserId ?? '-'} · 操作人 {node.operatorId ?? '-'}
+          </FieldRow>
+        )}
+      </div>
+      {relatedRequests.length > 0 && (
+        <div className="mt-3">
+          <h4 className="text-xs font-medium text-gray-500 mb-1">本地 As-User 写请求（前后 1 分钟）</h4>
+          <div className="space-y-1">
+            {relatedRequests.map((e) => (
+              <div key={e.id} className="text-xs text-gray-600 bg-amber-50 rounded px-2 py-1 break-all">
+                <span className="text-gray-400">{new Date(e.time).toLocaleTimeString()}</span>
+                <span className="mx-1 font-medium">{e.method}</span>
+                <span className="font-mono">{e.url}</span>
+                {!e.ok && <span className="ml-1 text-red-600">{e.error}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {node.error && (
+        <div className="mt-2 text-sm text-red-600 bg-red-50 rounded p-2">{node.error}</div>
+      )}
+      {node.decision && (
+        <div className="mt-3">
+          <h4 className="text-xs font-medium text-gray-500 mb-1">决策数据</h4>
+          <pre className="text-xs text-gray-600 bg-gray-50 rounded p-2 overflow-x-auto">
+            {JSON.stringify(node.decision, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 状态图例
+function StatusLegend() {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(decisionStatusConfig) as DecisionNodeStatus[]).map((status) => {
+        const config = decisionStatusConfig[status];
+        return (
+          <span key={status} className={`px-2 py-0.5 rounded border text-xs ${config.className}`}>
+            {config.label}
+          </span>
+        );
+      })}
+      <span className="flex items-center gap-1 text-xs text-gray-500">
+        <span className="w-6 h-0.5 bg-green-500" /> 已走分支
+      </span>
+      <span className="flex items-center gap-1 text-xs text-gray-500">
+        <span className="w-6 border-t border-dashed border-gray-400" /> 未走分支
+      </span>
+    </div>
+  );
+}
+
+export default function CaseTracePage() {
+  const { caseId } = useParams<{ caseId: string }>();
+  const { caseDebugInfo, decisionTree, loading, error, loadCaseDebugInfo, clearCaseDebug } = useDebugStore();
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (caseId) {
+      loadCaseDebugInfo(caseId);
+    }
+    return () => clearCaseDebug();
+  }, [caseId, loadCaseDebugInfo, clearCaseDebug]);
+
+  const selectedNode = decisionTree?.nodes.find((n) => n.id === selectedNodeId);
+  const stats = useMemo(() => (decisionTree ? computeDecisionTreeStats(decisionTree) : null), [decisionTree]);
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <GitBranch className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">案件决策追踪</h1>
+            <p className="text-sm text-gray-500">查看案件在工作流中的流转路径</p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => caseId && loadCaseDebugInfo(caseId)}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          刷新
+        </button>
+      </div>
+
+      {/* Loading State */}
+      {loading && !caseDebugInfo && (
+        <div className="flex items-center justify-center py-12">
+          <RefreshCw className="w-8 h-8 text-blue-600 animate-spin" />
+          <span className="ml-3 text-gray-600">正在加载案件...</span>
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <div className="flex items-center gap-2 text-red-700">
+            <XCircle className="w-5 h-5" />
+            <span>{error}</span>
+          </div>
+        </div>
+      )}
+
+      {caseDebugInfo && (
+        <div className="flex gap-6">
+          {/* 决策树画布 */}
+          <div className="flex-1 min-w-0">
+            <div className="mb-3">
+              <StatusLegend />
+            </div>
+            <div className="h-[calc(100vh-280px)] min-h-[400px] bg-white border border-gray-200 rounded-lg overflow-hidden">
+              {decisionTree ? (
+                <ReactFlowProvider>
+                  <DecisionTreeCanvas
+                    tree={decisionTree}
+                    selectedNodeId={selectedNodeId}
+                    onSelectNode={setSelectedNodeId}
+                  />
+                </ReactFlowProvider>
+              ) : (
+                <div className="h-full flex items-center justify-center text-gray-500">
+                  该案件暂无决策树信息
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* 侧边信息 */}
+          <div className="w-80 flex-shrink-0 space-y-4">
+            <CaseInfoCard info={caseDebugInfo} />
+            {stats && <DecisionTreeStatsCard stats={stats} />}
+            {selectedNode && <NodeDetailCard node={selectedNode} />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,22 @@
 import { useEffect, useState } from 'react';
-import { Tag, Plus, Pencil, Trash2, Lock, AlertCircle, X, Users, RefreshCw, Search } from 'lucide-react';
+import { Tag, Tags, Plus, Pencil, Trash2, Lock, AlertCircle, X, Users, RefreshCw, Search, Filter } from 'lucide-react';
 import { useTagStore, selectSystemTags, selectCustomTags } from '../stores/tagStore';
 import { listUsersByTag } from '../api/client';
-import type { TagDefinition, CreateTagDefRequest, UpdateTagDefRequest, UserWithTags } from '../types/tag';
+import { useAcademicYearStore } from '../stores/academicYearStore';
+import TagConditionBuilder from '../components/tag/TagConditionBuilder';
+import BulkTagModal from '../components/tag/BulkTagModal';
+import TagQueryInput from '../components/tag/TagQueryInput';
+import TagQueryResults from '../components/tag/TagQueryResults';
+import TagImpactModal, { type TagSchemaChange } from '../components/tag/TagImpactModal';
+import { diffEnumValues } from '../utils/tagImpact';
+import { isCompleteCondition } from '../utils/tagCondition';
+import type {
+  TagDefinition,
+  CreateTagDefRequest,
+  UpdateTagDefRequest,
+  UserWithTags,
+  TagCondition,
+} from '../types/tag';
 
 // ================================================================================
 // Tag Definition Form Modal
@@ -272,6 +286,7 @@ interface TagUsersModalProps {
 }
 
 function TagUsersModal({ tag, onClose }: TagUsersModalProps) {
+  const academicYear = useAcademicYearStore((s) => s.selectedYear);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [users, setUsers] = useState<UserWithTags[]>([]);
@@ -282,13 +297,13 @@ function TagUsersModal({ tag, onClose }: TagUsersModalProps) {
 
   useEffect(() => {
     loadUsers();
-  }, [tag.id, page]);
+  }, [tag.id, page, academicYear]);
 
   const loadUsers = async () => {
     setLoading(true);
     setError(null);
     try {
-      const result = await listUsersByTag(tag.id, { page, limit });
+      const result = await listUsersByTag(tag.id, { page, limit, academicYear });
       setUsers(result.users);
       setTotal(result.total);
     } catch (err) {
@@ -452,7 +467,7 @@ export default function TagManagementPage() {
     loadDefinitions,
     createDefinition,
     updateDefinition,
-    deleteDefinition,
+    queryByTags,
     clearError,
   } = useTagStore();
 
@@ -461,8 +476,10 @@ export default function TagManagementPage() {
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTag, setEditingTag] = useState<TagDefinition | null>(null);
-  const [deleteConfirm, setDeleteConfirm] = useState<TagDefinition | null>(null);
+  const [pendingChange, setPendingChange] = useState<{ tag: TagDefinition; change: TagSchemaChange } | null>(null);
   const [viewingUsersTag, setViewingUsersTag] = useState<TagDefinition | null>(null);
+  const [audienceCondition, setAudienceCondition] = useState<TagCondition | undefined>();
+  const [bulkOpen, setBulkOpen] = useState(false);
 
   useEffect(() => {
     loadDefinitions();
@@ -479,26 +496,20 @@ export default function TagManagementPage() {
   };
 
   const handleDelete = (tag: TagDefinition) => {
-    setDeleteConfirm(tag);
+    setPendingChange({ tag, change: { type: 'delete' } });
   };
 
   const handleViewUsers = (tag: TagDefinition) => {
     setViewingUsersTag(tag);
   };
 
-  const confirmDelete = async () => {
-    if (deleteConfirm) {
-      try {
-        await deleteDefinition(deleteConfirm.id);
-        setDeleteConfirm(null);
-      } catch {
-        // Error handled by store
-      }
-    }
-  };
-
   const handleSubmit = async (data: CreateTagDefRequest | UpdateTagDefRequest) => {
     if (editingTag) {
+      // 移除了枚举值时先做影响分析，由分析弹窗负责迁移和保存
+      if (diffEnumValues(editingTag.enum_values, data.enum_values).removed.length > 0) {
+        setPendingChange({ tag: editingTag, change: { type: 'update', data: data as UpdateTagDefRequest } });
+        return;
+      }
       await updateDefinition(editingTag.id, data as UpdateTagDefRequest);
     } else {
       await createDefinition(data as CreateTagDefRequest);
@@ -609,6 +620,35 @@ export default function TagManagementPage() {
                 </div>
               )}
             </section>
+
+            {/* Audience Query */}
+            <section>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <Filter className="w-5 h-5 text-green-600" />
+                  按标签查询用户
+                </h2>
+                <button
+                  onClick={() => setBulkOpen(true)}
+                  disabled={!audienceCondition || !isCompleteCondition(audienceCondition)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Tags className="w-4 h-4" />
+                  批量打标签
+                </button>
+              </div>
+              <div className="bg-white rounded-lg border p-4 mb-4">
+                <TagQueryInput value={audienceCondition} onChange={setAudienceCondition} />
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div className="bg-white rounded-lg border p-4">
+                  <TagConditionBuilder value={audienceCondition} onChange={setAudienceCondition} />
+                </div>
+                <div className="bg-white rounded-lg border p-4">
+                  <TagQueryResults condition={audienceCondition} />
+                </div>
+              </div>
+            </section>
           </div>
         )}
 
@@ -620,31 +660,22 @@ export default function TagManagementPage() {
           onSubmit={handleSubmit}
         />
 
-        {/* Delete Confirmation Modal */}
-        {deleteConfirm && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg shadow-xl w-full max-w-sm mx-4 p-6">
-              <h3 className="text-lg font-semibold text-gray-900">Delete Tag</h3>
-              <p className="mt-2 text-gray-600">
-                Are you sure you want to delete "{deleteConfirm.display_name}"? This will also
-                remove all user tag assignments.
-              </p>
-              <div className="mt-6 flex justify-end gap-3">
-                <button
-                  onClick={() => setDeleteConfirm(null)}
-                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={confirmDelete}
-                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
-                >
-                  Delete
-                </button>
-              </div>
-            </div>
-          </div>
+        {/* Impact Analysis Modal */}
+        {pendingChange && (
+          <TagImpactModal
+            tag={pendingChange.tag}
+            change={pendingChange.change}
+            onClose={() => setPendingChange(null)}
+          />
+        )}
+
+        {/* Bulk Tag Modal */}
+        {bulkOpen && audienceCondition && (
+          <BulkTagModal
+            target={{ type: 'condition', condition: audienceCondition }}
+            onClose={() => setBulkOpen(false)}
+            onCompleted={() => queryByTags(audienceCondition, 1, 10)}
+          />
         )}
 
         {/* Tag Users Modal */}
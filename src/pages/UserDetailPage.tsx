@@ -0,0 +1,317 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  User,
+  Shield,
+  Tags,
+  FileText,
+  GitBranch,
+  RefreshCw,
+  AlertCircle,
+  UserCheck,
+  LogOut,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import { getUser, getUserTags, listTagDefinitions, listCases, getErrorMessage, type CaseInfo } from '../api/client';
+import { useAcademicYearStore } from '../stores/academicYearStore';
+import { useAsUserStore } from '../stores/asUserStore';
+import UserTagHistory from '../components/tag/UserTagHistory';
+import { roleLabels } from '../utils/roles';
+import { formatTimestamp } from '../utils';
+import type { SSOUser } from '../types/user';
+import type { TagDefinition } from '../types/tag';
+
+const CASE_PAGE_SIZE = 10;
+
+// 字段行
+function FieldRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-3 py-1.5 text-sm">
+      <span className="text-gray-500 flex-shrink-0">{label}</span>
+      <span className="text-gray-900 text-right break-all">{children || <span className="text-gray-400">-</span>}</span>
+    </div>
+  );
+}
+
+// 用户提交的案件
+function UserCases({ userId }: { userId: number }) {
+  const [cases, setCases] = useState<CaseInfo[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listCases({ submitterId: String(userId), page, limit: CASE_PAGE_SIZE })
+      .then((res) => {
+        if (cancelled) return;
+        setCases(res.items);
+        setTotal(res.total);
+      })
+      .catch((err) => !cancelled && setError(getErrorMessage(err, '加载案件失败')))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, page]);
+
+  const totalPages = Math.ceil(total / CASE_PAGE_SIZE);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg">
+      <div className="px-4 py-3 border-b flex items-center gap-2">
+        <FileText className="w-4 h-4 text-blue-600" />
+        <h3 className="font-semibold text-gray-900">提交的案件</h3>
+        <span className="text-sm text-gray-500">({total})</span>
+        {loading && <RefreshCw className="w-4 h-4 animate-spin text-gray-400" />}
+      </div>
+      {error ? (
+        <div className="px-4 py-6 text-sm text-red-600 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      ) : cases.length === 0 ? (
+        <div className="px-4 py-8 text-center text-sm text-gray-400">{loading ? '加载中...' : '没有提交过案件'}</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-600">案件</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-600">学年</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-600">阶段</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-600">得分</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-600">提交时间</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {cases.map((c) => (
+              <tr key={c.id} className="hover:bg-gray-50">
+                <td className="px-4 py-2">
+                  <div className="text-gray-900">{c.title || '-'}</div>
+                  <div className="text-xs text-gray-500 font-mono">{c.id}</div>
+                </td>
+                <td className="px-4 py-2 text-gray-600">{c.academicYear}</td>
+                <td className="px-4 py-2 text-gray-600">
+                  {c.stage}
+                  {c.isConfirmed && <span className="ml-1 text-xs text-green-600">已确认</span>}
+                </td>
+                <td className="px-4 py-2 text-gray-600">{c.finalScore ?? c.score ?? '-'}</td>
+                <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatTimestamp(c.createdAt)}</td>
+                <td className="px-4 py-2 text-right">
+                  <Link
+                    to={`/cases/${c.id}/trace`}
+                    className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 whitespace-nowrap"
+                  >
+                    <GitBranch size={13} />
+                    决策树
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between px-4 py-2 border-t bg-gray-50 text-sm text-gray-500">
+          第 {page}/{totalPages} 页
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 1 || loading}
+              className="p-1.5 rounded border border-gray-200 hover:bg-white disabled:opacity-50"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page === totalPages || loading}
+              className="p-1.5 rounded border border-gray-200 hover:bg-white disabled:opacity-50"
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function UserDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const userId = Number(id);
+  const academicYear = useAcademicYearStore((s) => s.selectedYear);
+  const { asUser, actAs, exit } = useAsUserStore();
+  const [user, setUser] = useState<SSOUser | null>(null);
+  const [tags, setTags] = useState<Record<string, string> | null>(null);
+  const [definitions, setDefinitions] = useState<TagDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!Number.isInteger(userId)) {
+      setError('无效的用户ID');
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getUser(userId)
+      .then((u) => !cancelled && setUser(u))
+      .catch((err) => !cancelled && setError(getErrorMessage(err, '加载用户失败')))
+      .finally(() => !cancelled && setLoading(false));
+    listTagDefinitions()
+      .then((defs) => !cancelled && setDefinitions(defs))
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!Number.isInteger(userId)) return;
+    let cancelled = false;
+    setTags(null);
+    getUserTags(userId, academicYear)
+      .then((t) => !cancelled && setTags(t))
+      .catch(() => !cancelled && setTags({}));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, academicYear]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24 text-gray-500">
+        <RefreshCw className="w-6 h-6 animate-spin mr-2" />
+        加载中...
+      </div>
+    );
+  }
+
+  if (error || !user) {
+    return (
+      <div className="max-w-6xl mx-auto">
+        <Link to="/users" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-4">
+          <ArrowLeft size={16} />
+          返回用户列表
+        </Link>
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3 text-sm text-red-600">
+          <AlertCircle size={20} />
+          {error || '用户不存在'}
+        </div>
+      </div>
+    );
+  }
+
+  const roleInfo = roleLabels[user.role] || { label: user.role, color: 'bg-gray-100 text-gray-700' };
+  const defMap = new Map(definitions.map((d) => [d.name, d]));
+  const isActingAs = asUser?.id === String(user.id);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <Link to="/users" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+        <ArrowLeft size={16} />
+        返回用户列表
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center">
+            <User className="w-6 h-6 text-gray-500" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+              {user.display_name}
+              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${roleInfo.color}`}>
+                <Shield size={11} />
+                {roleInfo.label}
+              </span>
+              {!user.is_active && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-500">停用</span>
+              )}
+            </h2>
+            <p className="text-sm text-gray-500">{user.email}</p>
+          </div>
+        </div>
+        {isActingAs ? (
+          <button
+            onClick={exit}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-white border border-amber-300 text-amber-700 rounded-lg hover:bg-amber-50"
+          >
+            <LogOut size={16} />
+            退出该用户身份
+          </button>
+        ) : (
+          <button
+            onClick={() => actAs({ id: String(user.id), name: user.display_name })}
+            disabled={!user.is_active}
+            title={user.is_active ? '后续请求都会带上 X-As-User' : '停用用户不能代为操作'}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-amber-500 text-white rounded-lg hover:bg-amber-600 disabled:opacity-50"
+          >
+            <UserCheck size={16} />
+            以此用户身份操作
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Profile */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h3 className="font-semibold text-gray-900 mb-2">基本信息</h3>
+          <div className="divide-y divide-gray-100">
+            <FieldRow label="用户ID">
+              <span className="font-mono">{user.id}</span>
+            </FieldRow>
+            <FieldRow label="SSO ID">
+              <span className="font-mono">{user.sso_id}</span>
+            </FieldRow>
+            <FieldRow label="用户名">{user.username}</FieldRow>
+            <FieldRow label="学号">{user.student_id && <span className="font-mono">{user.student_id}</span>}</FieldRow>
+            <FieldRow label="院系">{user.department}</FieldRow>
+            <FieldRow label="年级">{user.grade}</FieldRow>
+            <FieldRow label="班级">{user.class_name}</FieldRow>
+          </div>
+        </div>
+
+        {/* Tags */}
+        <div className="lg:col-span-2 bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+              <Tags className="w-4 h-4 text-blue-600" />
+              {academicYear} 学年标签
+            </h3>
+            {tags === null ? (
+              <RefreshCw className="w-4 h-4 animate-spin text-gray-400" />
+            ) : Object.keys(tags).length === 0 ? (
+              <p className="text-sm text-gray-400">暂无标签</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(tags).map(([name, value]) => (
+                  <span
+                    key={name}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-sm bg-blue-50 text-blue-700 border border-blue-100"
+                  >
+                    <span className="text-blue-400">{defMap.get(name)?.display_name || name}</span>
+                    <span className="text-blue-200">|</span>
+                    {value}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <UserTagHistory userId={user.id} latestYear={academicYear} definitions={definitions} />
+        </div>
+      </div>
+
+      <UserCases userId={user.id} />
+    </div>
+  );
+}
@@ -1,42 +1,27 @@
 import { useState, useEffect } from 'react';
-import { Users, Search, RefreshCw, ChevronLeft, ChevronRight, User, Shield, AlertCircle, Download, CheckCircle, Tags, X, Plus } from 'lucide-react';
-import axios from 'axios';
-import { listTagDefinitions, getUserTags, assignUserTag, removeUserTag, getTagValues } from '../api/client';
+import { Link } from 'react-router-dom';
+import { Users, Search, RefreshCw, ChevronLeft, ChevronRight, User, Shield, AlertCircle, Download, Tags, X, Plus, FileSpreadsheet, Copy } from 'lucide-react';
+import {
+  listTagDefinitions,
+  getUserTags,
+  assignUserTag,
+  removeUserTag,
+  getTagValues,
+  copyUserTagsForward,
+  getErrorMessage,
+} from '../api/client';
 import type { TagDefinition, AssignTagRequest } from '../types/tag';
-
-// 后端返回的用户结构
-interface SSOUser {
-  id: number;
-  sso_id: string;
-  username: string;
-  email: string;
-  display_name: string;
-  department: string;
-  grade: string;
-  class_name: string;
-  student_id: string;
-  role: string;
-  is_active: boolean;
-}
-
-interface UserTag {
-  tag_name: string;
-  tag_value: string;
-  academic_year?: string;
-}
-
-interface UserWithTags {
-  user: SSOUser;
-  tags: UserTag[];
-}
-
-const roleLabels: Record<string, { label: string; color: string }> = {
-  super_admin: { label: '超级管理员', color: 'bg-red-100 text-red-700' },
-  grade_admin: { label: '年级管理员', color: 'bg-purple-100 text-purple-700' },
-  admin: { label: '管理员', color: 'bg-blue-100 text-blue-700' },
-  student: { label: '学生', color: 'bg-green-100 text-green-700' },
-  teacher: { label: '教师', color: 'bg-orange-100 text-orange-700' },
-};
+import type { SSOUser } from '../types/user';
+import { roleLabels } from '../utils/roles';
+import { previousAcademicYear } from '../utils/academicYear';
+import { useAcademicYearStore } from '../stores/academicYearStore';
+import { useUserStore } from '../stores/userStore';
+import { useSSOSyncStore } from '../stores/ssoSyncStore';
+import DataSourceBadge from '../components/DataSourceBadge';
+import BulkTagModal from '../components/tag/BulkTagModal';
+import UserTagsCsvModal from '../components/tag/UserTagsCsvModal';
+import UserTagHistory from '../components/tag/UserTagHistory';
+import SSOSyncModal from '../components/user/SSOSyncModal';
 
 // ================================================================================
 // Tag Edit Modal
@@ -49,11 +34,15 @@ interface TagEditModalProps {
 }
 
 function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
+  const academicYear = useAcademicYearStore((s) => s.selectedYear);
   const [tags, setTags] = useState<Record<string, string>>({});
   const [definitions, setDefinitions] = useState<TagDefinition[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [copyResult, setCopyResult] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+  const lastYear = previousAcademicYear(academicYear);
 
   // 新标签表单
   const [newTagName, setNewTagName] = useState('');
@@ -67,7 +56,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
 
   useEffect(() => {
     loadData();
-  }, [user.id]);
+  }, [user.id, academicYear]);
 
   // 当选择标签类型时，加载现有值
   useEffect(() => {
@@ -83,7 +72,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
     setError(null);
     try {
       const [userTags, defs] = await Promise.all([
-        getUserTags(user.id),
+        getUserTags(user.id, academicYear),
         listTagDefinitions(),
       ]);
       setTags(userTags);
@@ -101,7 +90,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
 
     setLoadingValues(true);
     try {
-      const values = await getTagValues(selectedDef.id);
+      const values = await getTagValues(selectedDef.id, academicYear);
       setExistingValues(values);
     } catch {
       // 忽略错误，保持空数组
@@ -119,6 +108,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
       const req: AssignTagRequest = {
         tag_name: newTagName,
         tag_value: newTagValue,
+        academic_year: academicYear,
       };
       await assignUserTag(user.id, req);
       setTags((prev) => ({ ...prev, [newTagName]: newTagValue }));
@@ -138,7 +128,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
     setSaving(true);
     setError(null);
     try {
-      await removeUserTag(user.id, tagName);
+      await removeUserTag(user.id, tagName, academicYear);
       setTags((prev) => {
         const next = { ...prev };
         delete next[tagName];
@@ -152,6 +142,31 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
     }
   };
 
+  // 复制上一学年的标签到当前学年
+  const handleCopyForward = async () => {
+    if (!lastYear) return;
+    setSaving(true);
+    setError(null);
+    setCopyResult(null);
+    try {
+      const { copied, skipped } = await copyUserTagsForward(user.id, lastYear, academicYear);
+      setCopyResult(
+        copied.length === 0 && skipped.length === 0
+          ? `${lastYear} 学年没有标签`
+          : `已复制 ${copied.length} 个标签${skipped.length > 0 ? `，${skipped.length} 个本学年已存在未覆盖` : ''}`
+      );
+      if (copied.length > 0) {
+        setTags(await getUserTags(user.id, academicYear));
+        setHistoryKey((k) => k + 1);
+        onUpdated();
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, '复制标签失败'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSelectValue = (value: string) => {
     setNewTagValue(value);
     setSearchTerm(value);
@@ -182,7 +197,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b">
           <div>
@@ -190,7 +205,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
               编辑用户标签
             </h3>
             <p className="text-sm text-gray-500">
-              {user.display_name} ({user.username})
+              {user.display_name} ({user.username}) · {academicYear} 学年
             </p>
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
@@ -198,7 +213,7 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
           </button>
         </div>
 
-        <div className="p-6 space-y-4">
+        <div className="p-6 space-y-4 overflow-y-auto">
           {error && (
             <div className="bg-red-50 text-red-600 px-4 py-2 rounded-lg flex items-center gap-2 text-sm">
               <AlertCircle className="w-4 h-4 flex-shrink-0" />
@@ -215,9 +230,22 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
             <>
               {/* 当前标签列表 */}
               <div>
-                <h4 className="text-sm font-medium text-gray-700 mb-2">
-                  当前标签
-                </h4>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium text-gray-700">
+                    当前标签
+                  </h4>
+                  {lastYear && (
+                    <button
+                      onClick={handleCopyForward}
+                      disabled={saving}
+                      className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      <Copy className="w-3.5 h-3.5" />
+                      复制 {lastYear} 学年标签
+                    </button>
+                  )}
+                </div>
+                {copyResult && <p className="mb-2 text-xs text-green-600">{copyResult}</p>}
                 {Object.keys(tags).length === 0 ? (
                   <p className="text-sm text-gray-400">暂无标签</p>
                 ) : (
@@ -248,6 +276,16 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
                 )}
               </div>
 
+              {/* 历年标签 */}
+              <div className="border-t pt-4">
+                <UserTagHistory
+                  userId={user.id}
+                  latestYear={academicYear}
+                  definitions={definitions}
+                  refreshKey={`${historyKey}:${JSON.stringify(tags)}`}
+                />
+              </div>
+
               {/* 添加标签 */}
               {unassignedDefs.length > 0 && (
                 <div className="border-t pt-4">
@@ -345,18 +383,34 @@ function TagEditModal({ user, onClose, onUpdated }: TagEditModalProps) {
 // ================================================================================
 
 export default function UsersPage() {
-  const [users, setUsers] = useState<UserWithTags[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [total, setTotal] = useState(0);
-  const [keyword, setKeyword] = useState('');
-  const [roleFilter, setRoleFilter] = useState('');
-  const [syncing, setSyncing] = useState(false);
-  const [syncResult, setSyncResult] = useState<{ synced: number; failed: number } | null>(null);
+  const {
+    items: users,
+    total,
+    page,
+    limit,
+    keyword: appliedKeyword,
+    role: roleFilter,
+    loading,
+    tagsLoading,
+    isMock,
+    error,
+    fetchUsers,
+    setPage,
+    setFilters,
+    refresh,
+    reloadTags,
+  } = useUserStore();
+  // 输入框内容，提交搜索时才写入 store
+  const [keyword, setKeyword] = useState(appliedKeyword);
   const [editingUser, setEditingUser] = useState<SSOUser | null>(null);
   const [tagDefs, setTagDefs] = useState<TagDefinition[]>([]);
-  const limit = 20;
+  const academicYear = useAcademicYearStore((s) => s.selectedYear);
+  // 跨页保留的勾选用户：id -> 显示名
+  const [selected, setSelected] = useState<Map<number, string>>(new Map());
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [csvOpen, setCsvOpen] = useState(false);
+  const [syncOpen, setSyncOpen] = useState(false);
+  const { runningJob, loadHistory: loadSyncHistory, stopPolling: stopSyncPolling } = useSSOSyncStore();
 
   // 标签名到显示名的映射
   const tagNameMap = new Map(tagDefs.map((d) => [d.name, d.display_name]));
@@ -366,87 +420,41 @@ export default function UsersPage() {
     listTagDefinitions().then(setTagDefs).catch(() => {});
   }, []);
 
-  const fetchUsers = async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const params = new URLSearchParams();
-      params.set('page', String(page));
-      params.set('limit', String(limit));
-      if (keyword) params.set('keyword', keyword);
-      if (roleFilter) params.set('role', roleFilter);
-
-      const response = await axios.get(`/api/v1/users?${params.toString()}`);
-      if (response.data.code === 0 && response.data.data) {
-        const usersData: SSOUser[] = response.data.data.items || [];
-        const usersWithTags: UserWithTags[] = usersData.map((user) => ({ user, tags: [] }));
-        setUsers(usersWithTags);
-        setTotal(response.data.data.total || usersData.length);
-
-        // 并行加载每个用户的标签
-        const tagResults = await Promise.allSettled(
-          usersData.map((u) => getUserTags(u.id))
-        );
-        setUsers(
-          usersData.map((user, i) => {
-            const result = tagResults[i];
-            const tagsMap = result.status === 'fulfilled' ? result.value : {};
-            return {
-              user,
-              tags: Object.entries(tagsMap).map(([tag_name, tag_value]) => ({
-                tag_name,
-                tag_value,
-              })),
-            };
-          })
-        );
-      } else {
-        setUsers(getMockUsers());
-        setTotal(8);
-        setError('API 返回异常，显示模拟数据');
-      }
-    } catch (err) {
-      setUsers(getMockUsers());
-      setTotal(8);
-      setError('API 暂不可用，显示模拟数据');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   useEffect(() => {
     fetchUsers();
-  }, [page, roleFilter]);
+  }, [fetchUsers, academicYear]);
+
+  // 恢复跟踪未结束的同步任务
+  useEffect(() => {
+    loadSyncHistory();
+    return stopSyncPolling;
+  }, [loadSyncHistory, stopSyncPolling]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    setPage(1);
-    fetchUsers();
+    setFilters({ keyword: keyword.trim() });
   };
 
-  const handleSyncSSO = async () => {
-    setSyncing(true);
-    setError(null);
-    setSyncResult(null);
-    try {
-      const response = await axios.post('/api/v1/users/sync-sso');
-      if (response.data.code === 0 && response.data.data) {
-        setSyncResult({
-          synced: response.data.data.synced || 0,
-          failed: response.data.data.failed || 0,
-        });
-        // 同步成功后刷新用户列表
-        fetchUsers();
-      } else {
-        setError(response.data.message || '同步失败');
-      }
-    } catch (err: unknown) {
-      const errorMsg = err instanceof Error ? err.message : '同步请求失败';
-      const axiosError = err as { response?: { data?: { message?: string } } };
-      setError(axiosError.response?.data?.message || errorMsg);
-    } finally {
-      setSyncing(false);
-    }
+  const toggleSelected = (user: SSOUser) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(user.id)) next.delete(user.id);
+      else next.set(user.id, user.display_name);
+      return next;
+    });
+  };
+
+  const allOnPageSelected = users.length > 0 && users.every((u) => selected.has(u.user.id));
+
+  const togglePageSelected = () => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      users.forEach((u) => {
+        if (allOnPageSelected) next.delete(u.user.id);
+        else next.set(u.user.id, u.user.display_name);
+      });
+      return next;
+    });
   };
 
   const totalPages = Math.ceil(total / limit);
@@ -465,16 +473,40 @@ export default function UsersPage() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {users.length > 0 && <DataSourceBadge isMock={isMock} />}
+          {selected.size > 0 && (
+            <>
+              <button
+                onClick={() => setBulkOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                <Tags size={16} />
+                批量标签（{selected.size}）
+              </button>
+              <button
+                onClick={() => setSelected(new Map())}
+                className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                取消选择
+              </button>
+            </>
+          )}
           <button
-            onClick={handleSyncSSO}
-            disabled={syncing || loading}
-            className="flex items-center gap-2 px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            onClick={() => setCsvOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
           >
-            <Download size={16} className={syncing ? 'animate-bounce' : ''} />
-            {syncing ? '同步中...' : '从SSO拉取用户'}
+            <FileSpreadsheet size={16} />
+            导入/导出
           </button>
           <button
-            onClick={fetchUsers}
+            onClick={() => setSyncOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700"
+          >
+            <Download size={16} className={runningJob ? 'animate-bounce' : ''} />
+            {runningJob ? `同步中 ${runningJob.processed}/${runningJob.total || '?'}` : '从SSO拉取用户'}
+          </button>
+          <button
+            onClick={refresh}
             disabled={loading}
             className="flex items-center gap-2 px-4 py-2 text-sm bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
           >
@@ -484,23 +516,6 @@ export default function UsersPage() {
         </div>
       </div>
 
-      {/* Sync Result */}
-      {syncResult && (
-        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
-          <CheckCircle size={20} className="text-green-600" />
-          <span className="text-sm text-green-700">
-            同步完成：成功 {syncResult.synced} 个用户
-            {syncResult.failed > 0 && `，失败 ${syncResult.failed} 个`}
-          </span>
-          <button
-            onClick={() => setSyncResult(null)}
-            className="ml-auto text-green-600 hover:text-green-800 text-sm"
-          >
-            关闭
-          </button>
-        </div>
-      )}
-
       {/* Filters */}
       <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6">
         <form onSubmit={handleSearch} className="flex items-center gap-4">
@@ -516,10 +531,7 @@ export default function UsersPage() {
           </div>
           <select
             value={roleFilter}
-            onChange={(e) => {
-              setRoleFilter(e.target.value);
-              setPage(1);
-            }}
+            onChange={(e) => setFilters({ role: e.target.value })}
             className="px-4 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             <option value="">全部角色</option>
@@ -538,6 +550,14 @@ export default function UsersPage() {
         </form>
       </div>
 
+      {/* Mock Notice */}
+      {isMock && !loading && (
+        <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-3">
+          <AlertCircle size={20} className="text-amber-600" />
+          <span className="text-sm text-amber-700">用户 API 暂不可用，当前显示模拟数据，标签编辑不会生效</span>
+        </div>
+      )}
+
       {/* Error Alert */}
       {error && (
         <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-3">
@@ -550,6 +570,7 @@ export default function UsersPage() {
       <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
         <table className="w-full table-fixed">
           <colgroup>
+            <col style={{ width: '40px' }} />
             <col style={{ width: '35%' }} />
             <col style={{ width: '13%' }} />
             <col style={{ width: '18%' }} />
@@ -559,6 +580,15 @@ export default function UsersPage() {
           </colgroup>
           <thead className="bg-gray-50 border-b border-gray-200">
             <tr>
+              <th className="pl-3 py-2.5">
+                <input
+                  type="checkbox"
+                  checked={allOnPageSelected}
+                  onChange={togglePageSelected}
+                  className="rounded border-gray-300"
+                  title="选择本页"
+                />
+              </th>
               <th className="px-3 py-2.5 text-left text-sm font-medium text-gray-600">用户</th>
               <th className="px-2 py-2.5 text-left text-sm font-medium text-gray-600">角色</th>
               <th className="px-2 py-2.5 text-left text-sm font-medium text-gray-600">年级/班级</th>
@@ -570,14 +600,14 @@ export default function UsersPage() {
           <tbody className="divide-y divide-gray-100">
             {loading ? (
               <tr>
-                <td colSpan={6} className="px-4 py-12 text-center text-gray-500">
+                <td colSpan={7} className="px-4 py-12 text-center text-gray-500">
                   <RefreshCw size={24} className="animate-spin mx-auto mb-2" />
                   加载中...
                 </td>
               </tr>
             ) : users.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-4 py-12 text-center text-gray-500">
+                <td colSpan={7} className="px-4 py-12 text-center text-gray-500">
                   暂无用户数据
                 </td>
               </tr>
@@ -585,29 +615,50 @@ export default function UsersPage() {
               users.map((item) => {
                 const roleInfo = roleLabels[item.user.role] || { label: item.user.role, color: 'bg-gray-100 text-gray-700' };
                 return (
-                  <tr key={item.user.id} className="hover:bg-gray-50">
+                  <tr key={item.user.id} className={selected.has(item.user.id) ? 'bg-blue-50/50' : 'hover:bg-gray-50'}>
+                    <td className="pl-3 py-2.5 align-top">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(item.user.id)}
+                        onChange={() => toggleSelected(item.user)}
+                        className="mt-1.5 rounded border-gray-300"
+                      />
+                    </td>
                     <td className="px-3 py-2.5">
                       <div className="flex items-start gap-2">
                         <div className="w-7 h-7 bg-gray-100 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
                           <User size={14} className="text-gray-500" />
                         </div>
                         <div className="min-w-0">
-                          <div className="font-medium text-sm text-gray-900 leading-tight">{item.user.display_name}</div>
+                          <Link
+                            to={`/users/${item.user.id}`}
+                            className="block font-medium text-sm text-gray-900 leading-tight hover:text-blue-600 hover:underline"
+                          >
+                            {item.user.display_name}
+                          </Link>
                           <div className="text-xs text-gray-500 truncate leading-tight">{item.user.email}</div>
-                          {item.tags.length > 0 && (
-                            <div className="flex flex-wrap gap-1 mt-1">
-                              {item.tags.map((t) => (
-                                <span
-                                  key={t.tag_name}
-                                  className="inline-flex items-center gap-0.5 px-1.5 py-px rounded-full text-xs bg-gradient-to-r from-blue-50 to-indigo-50 text-blue-700 border border-blue-100 whitespace-nowrap"
-                                  title={`${tagNameMap.get(t.tag_name) || t.tag_name}: ${t.tag_value}`}
-                                >
-                                  <span className="text-blue-400">{tagNameMap.get(t.tag_name) || t.tag_name}</span>
-                                  <span className="text-blue-200">|</span>
-                                  <span>{t.tag_value}</span>
-                                </span>
-                              ))}
-                            </div>
+                          {item.tags === null ? (
+                            tagsLoading ? (
+                              <div className="mt-1 h-4 w-24 bg-gray-100 rounded animate-pulse" />
+                            ) : (
+                              <div className="mt-1 text-xs text-red-400">标签加载失败</div>
+                            )
+                          ) : (
+                            Object.keys(item.tags).length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {Object.entries(item.tags).map(([tagName, tagValue]) => (
+                                  <span
+                                    key={tagName}
+                                    className="inline-flex items-center gap-0.5 px-1.5 py-px rounded-full text-xs bg-gradient-to-r from-blue-50 to-indigo-50 text-blue-700 border border-blue-100 whitespace-nowrap"
+                                    title={`${tagNameMap.get(tagName) || tagName}: ${tagValue}`}
+                                  >
+                                    <span className="text-blue-400">{tagNameMap.get(tagName) || tagName}</span>
+                                    <span className="text-blue-200">|</span>
+                                    <span>{tagValue}</span>
+                                  </span>
+                                ))}
+                              </div>
+                            )
                           )}
                         </div>
                       </div>
@@ -694,31 +745,34 @@ export default function UsersPage() {
         <TagEditModal
           user={editingUser}
           onClose={() => setEditingUser(null)}
-          onUpdated={() => fetchUsers()}
+          onUpdated={() => reloadTags([editingUser.id])}
+        />
+      )}
+
+      {/* SSO Sync Modal */}
+      {syncOpen && <SSOSyncModal onClose={() => setSyncOpen(false)} />}
+
+      {/* CSV Modal */}
+      {csvOpen && (
+        <UserTagsCsvModal
+          keyword={appliedKeyword}
+          role={roleFilter}
+          onClose={() => setCsvOpen(false)}
+          onImported={refresh}
+        />
+      )}
+
+      {/* Bulk Tag Modal */}
+      {bulkOpen && (
+        <BulkTagModal
+          target={{
+            type: 'users',
+            users: [...selected].map(([id, display_name]) => ({ id, display_name })),
+          }}
+          onClose={() => setBulkOpen(false)}
+          onCompleted={() => reloadTags([...selected.keys()])}
         />
       )}
     </div>
   );
 }
-
-// 模拟数据（用于 API 不可用时）
-function getMockUsers(): UserWithTags[] {
-  return [
-    {
-      user: { id: 1, sso_id: 'mock-1', username: 'superadmin', email: 'admin@test.edu.cn', display_name: '超级管理员', department: '信息中心', grade: '', class_name: '', student_id: '', role: 'super_admin', is_active: true },
-      tags: [],
-    },
-    {
-      user: { id: 2, sso_id: 'mock-2', username: 'gradeadmin', email: 'grade@test.edu.cn', display_name: '2024级辅导员', department: '计算机学院', grade: '', class_name: '', student_id: '', role: 'grade_admin', is_active: true },
-      tags: [],
-    },
-    {
-      user: { id: 3, sso_id: 'mock-3', username: 'admin1', email: 'admin1@test.edu.cn', display_name: '2024级1班班主任', department: '计算机学院', grade: '2024', class_name: '2024级1班', student_id: '', role: 'admin', is_active: true },
-      tags: [],
-    },
-    {
-      user: { id: 4, sso_id: 'mock-4', username: 'student1', email: 'student1@test.edu.cn', display_name: '张三', department: '计算机学院', grade: '2024', class_name: '2024级1班', student_id: '2024010101', role: 'student', is_active: true },
-      tags: [],
-    },
-  ];
-}
@@ -1,4 +1,5 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import {
   ReactFlow,
   Background,
@@ -12,11 +13,17 @@ import '@xyflow/react/dist/style.css';
 
 import { useDesignerStore } from '../stores/designerStore';
 import { useDebugStore } from '../stores/debugStore';
+import { useBreakpointStore } from '../stores/breakpointStore';
 import Sidebar from '../components/workflow/Sidebar';
 import PropertiesPanel from '../components/workflow/PropertiesPanel';
 import Toolbar from '../components/workflow/Toolbar';
 import DebugPanel from '../components/workflow/DebugPanel';
+import DraftPickerModal from '../components/workflow/DraftPickerModal';
+import ProblemsPanel from '../components/workflow/ProblemsPanel';
+import BreakpointEditor from '../components/workflow/BreakpointEditor';
+import DebugRunDialog, { type DebugRunTab } from '../components/workflow/DebugRunDialog';
 import { nodeTypes } from '../components/workflow/nodes';
+import { useUndoRedoShortcuts } from '../hooks';
 
 function DesignerCanvas() {
   const {
@@ -29,12 +36,69 @@ function DesignerCanvas() {
     selectEdge,
     addNode,
     templates,
+    designId,
+    error,
+    validationResult,
+    liveValidation,
+    validateLocal,
+    loadDraft,
+    createDraft,
+    reset,
   } = useDesignerStore();
 
-  const { highlightedNodeId } = useDebugStore();
+  const { highlightedNodeId, replayNodeId } = useDebugStore();
+  const { editingNodeId, openEditor, load: loadBreakpoints } = useBreakpointStore();
   const { screenToFlowPosition } = useReactFlow();
 
+  const { draftId } = useParams<{ draftId: string }>();
+  const navigate = useNavigate();
+
   const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const [debugRunTab, setDebugRunTab] = useState<DebugRunTab | null>(null);
+  const [showDraftPicker, setShowDraftPicker] = useState(!draftId);
+
+  useUndoRedoShortcuts();
+
+  // URL 中的草稿ID变化时加载草稿
+  useEffect(() => {
+    if (!draftId) {
+      setShowDraftPicker(true);
+      return;
+    }
+    if (draftId !== useDesignerStore.getState().designId) {
+      loadDraft(draftId).catch(() => setShowDraftPicker(true));
+    }
+  }, [draftId, loadDraft]);
+
+  // 断点按草稿保存
+  useEffect(() => {
+    loadBreakpoints(designId);
+  }, [designId, loadBreakpoints]);
+
+  // 实时校验：编辑停止后运行本地结构校验
+  useEffect(() => {
+    if (!liveValidation) return;
+    const timer = setTimeout(() => validateLocal(), 300);
+    return () => clearTimeout(timer);
+  }, [liveValidation, nodes, edges, templates, validateLocal]);
+
+  const handleOpenDraft = (id: string) => {
+    setShowDraftPicker(false);
+    navigate(`/workflow/${id}`);
+  };
+
+  const handleCreateDraft = async (name: string, description?: string) => {
+    const id = await createDraft(name, description);
+    setShowDraftPicker(false);
+    navigate(`/workflow/${id}`);
+  };
+
+  const handleDraftDeleted = (id: string) => {
+    if (id === designId) {
+      reset();
+      navigate('/workflow');
+    }
+  };
 
   // 处理拖放
   const onDragOver = useCallback((event: React.DragEvent) => {
@@ -62,7 +126,14 @@ function DesignerCanvas() {
         type: type as 'start' | 'end' | 'user_task' | 'service_task' | 'script_task' | 'exclusive_gateway' | 'parallel_gateway' | 'inclusive_gateway' | 'sub_process',
         name: template.name,
         position: { x: position.x, y: position.y },
-        properties: { ...template.defaultProps },
+        properties: {
+          ...Object.fromEntries(
+            (template.configurable || [])
+              .filter((field) => field.defaultValue !== undefined)
+              .map((field) => [field.key, field.defaultValue])
+          ),
+          ...template.defaultProps,
+        },
         ports: template.ports,
       };
 
@@ -93,18 +164,35 @@ function DesignerCanvas() {
     selectEdge(null);
   }, [selectNode, selectEdge]);
 
-  // 高亮当前调试节点
+  // 高亮当前调试节点；回放时高亮回放位置
   const styledNodes = nodes.map((node) => ({
     ...node,
     style: {
       ...node.style,
       boxShadow:
-        node.id === highlightedNodeId
-          ? '0 0 0 3px #22c55e, 0 0 20px rgba(34, 197, 94, 0.5)'
-          : undefined,
+        node.id === replayNodeId
+          ? '0 0 0 3px #f59e0b, 0 0 20px rgba(245, 158, 11, 0.5)'
+          : node.id === highlightedNodeId && !replayNodeId
+            ? '0 0 0 3px #22c55e, 0 0 20px rgba(34, 197, 94, 0.5)'
+            : undefined,
     },
   }));
 
+  // 标记存在验证问题的连线
+  const edgeErrors = new Map(
+    (validationResult?.errors || []).filter((e) => e.edgeId).map((e) => [e.edgeId!, e.message])
+  );
+  const styledEdges = edges.map((edge) => {
+    const message = edgeErrors.get(edge.id);
+    if (!message) return edge;
+    return {
+      ...edge,
+      style: { ...edge.style, stroke: '#ef4444', strokeWidth: 2 },
+      label: `⚠ ${edge.label || message}`,
+      labelStyle: { fill: '#dc2626' },
+    };
+  });
+
   return (
     <div className="flex h-full">
       {/* 左侧边栏 - 节点模板 */}
@@ -113,13 +201,21 @@ function DesignerCanvas() {
       {/* 中间画布区域 */}
       <div className="flex-1 flex flex-col">
         {/* 工具栏 */}
-        <Toolbar onToggleDebug={() => setShowDebugPanel(!showDebugPanel)} />
+        <Toolbar
+          onToggleDebug={() => setShowDebugPanel(!showDebugPanel)}
+          onDebugRun={() => setDebugRunTab('run')}
+          onOpenDrafts={() => setShowDraftPicker(true)}
+        />
+
+        {error && (
+          <div className="px-4 py-2 bg-red-50 border-b border-red-200 text-sm text-red-600">{error}</div>
+        )}
 
         {/* 画布 */}
         <div className="flex-1 relative">
           <ReactFlow
             nodes={styledNodes}
-            edges={edges}
+            edges={styledEdges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
             onConnect={onConnect}
@@ -145,6 +241,9 @@ function DesignerCanvas() {
               pannable
               className="bg-white rounded shadow"
             />
+            <Panel position="top-left">
+              <ProblemsPanel />
+            </Panel>
             <Panel position="top-right" className="bg-white p-2 rounded shadow text-sm">
               节点: {nodes.length} | 连线: {edges.length}
             </Panel>
@@ -153,7 +252,7 @@ function DesignerCanvas() {
           {/* 调试面板 */}
           {showDebugPanel && (
             <div className="absolute bottom-0 left-0 right-0 h-64">
-              <DebugPanel onClose={() => setShowDebugPanel(false)} />
+              <DebugPanel onClose={() => setShowDebugPanel(false)} onStartDebug={setDebugRunTab} />
             </div>
           )}
         </div>
@@ -161,6 +260,29 @@ function DesignerCanvas() {
 
       {/* 右侧属性面板 */}
       <PropertiesPanel />
+
+      {/* 调试运行 */}
+      {debugRunTab && (
+        <DebugRunDialog
+          initialTab={debugRunTab}
+          onClose={() => setDebugRunTab(null)}
+          onStarted={() => setShowDebugPanel(true)}
+        />
+      )}
+
+      {/* 断点条件 */}
+      {editingNodeId && <BreakpointEditor nodeId={editingNodeId} onClose={() => openEditor(null)} />}
+
+      {/* 草稿选择 */}
+      {showDraftPicker && (
+        <DraftPickerModal
+          currentDraftId={designId}
+          onOpen={handleOpenDraft}
+          onCreate={handleCreateDraft}
+          onDeleted={handleDraftDeleted}
+          onClose={() => setShowDraftPicker(false)}
+        />
+      )}
     </div>
   );
 }
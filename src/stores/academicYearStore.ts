@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import * as api from '../api/client';
+import { guessAcademicYear, isAcademicYear } from '../utils/academicYear';
+
+const STORAGE_KEY = 'selected_academic_year';
+
+interface AcademicYearState {
+  // 系统配置的当前学年
+  currentYear: string;
+  // 标签读写使用的学年，默认等于当前学年
+  selectedYear: string;
+  // currentYear 是否来自 current_academic_year 配置
+  fromConfig: boolean;
+  loaded: boolean;
+
+  loadCurrentYear: () => Promise<void>;
+  setSelectedYear: (year: string) => void;
+  resetToCurrent: () => void;
+}
+
+function readSavedYear(): string | null {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved && isAcademicYear(saved) ? saved : null;
+}
+
+export const useAcademicYearStore = create<AcademicYearState>((set, get) => ({
+  currentYear: guessAcademicYear(),
+  selectedYear: readSavedYear() || guessAcademicYear(),
+  fromConfig: false,
+  loaded: false,
+
+  loadCurrentYear: async () => {
+    if (get().loaded) return;
+    try {
+      const value = await api.getSystemConfigValue('current_academic_year');
+      if (value && isAcademicYear(value)) {
+        set({ currentYear: value, selectedYear: readSavedYear() || value, fromConfig: true, loaded: true });
+        return;
+      }
+    } catch {
+      // 配置接口不可用时沿用按日期推算的学年
+    }
+    set({ loaded: true });
+  },
+
+  setSelectedYear: (year) => {
+    if (year === get().currentYear) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, year);
+    }
+    set({ selectedYear: year });
+  },
+
+  resetToCurrent: () => {
+    localStorage.removeItem(STORAGE_KEY);
+    set({ selectedYear: get().currentYear });
+  },
+}));
+
+// 非组件代码读取当前选择的学年
+export const getSelectedAcademicYear = () => useAcademicYearStore.getState().selectedYear;
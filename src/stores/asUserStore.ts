@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { setAsUser } from '../api/client';
+
+// as_user 只存 ID（请求拦截器读取），显示名单独保存供横幅使用
+const NAME_STORAGE_KEY = 'as_user_name';
+const RECENT_STORAGE_KEY = 'as_user_recent';
+const MAX_RECENT = 5;
+
+export interface AsUserIdentity {
+  id: string;
+  name: string;
+}
+
+interface AsUserState {
+  asUser: AsUserIdentity | null;
+  // 最近代为操作过的用户，供切换器快速选择
+  recent: AsUserIdentity[];
+
+  actAs: (user: AsUserIdentity) => void;
+  exit: () => void;
+}
+
+function readAsUser(): AsUserIdentity | null {
+  const id = localStorage.getItem('as_user');
+  if (!id) return null;
+  return { id, name: localStorage.getItem(NAME_STORAGE_KEY) || id };
+}
+
+function readRecent(): AsUserIdentity[] {
+  try {
+    return JSON.parse(localStorage.getItem(RECENT_STORAGE_KEY) || '[]') as AsUserIdentity[];
+  } catch {
+    return [];
+  }
+}
+
+export const useAsUserStore = create<AsUserState>((set, get) => ({
+  asUser: readAsUser(),
+  recent: readRecent(),
+
+  actAs: (user) => {
+    setAsUser(user.id);
+    localStorage.setItem(NAME_STORAGE_KEY, user.name);
+    const recent = [user, ...get().recent.filter((r) => r.id !== user.id)].slice(0, MAX_RECENT);
+    localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(recent));
+    set({ asUser: user, recent });
+  },
+
+  exit: () => {
+    setAsUser(null);
+    localStorage.removeItem(NAME_STORAGE_KEY);
+    set({ asUser: null });
+  },
+}));
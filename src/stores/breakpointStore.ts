@@ -0,0 +1,124 @@
+import { create } from 'zustand';
+import type { BreakpointOptions } from '../api/client';
+import type { Breakpoint } from '../types/workflow';
+import { readDraftBreakpoints, saveDraftBreakpoints } from '../utils/breakpoints';
+import { useDebugStore } from './debugStore';
+
+interface BreakpointState {
+  // 断点所属的草稿，断点按草稿保存在本地
+  designId: string | null;
+  breakpoints: Record<string, Breakpoint>;
+  // 正在编辑条件的节点
+  editingNodeId: string | null;
+
+  load: (designId: string | null) => void;
+  // 画布上点击节点左侧圆点：没有断点则添加，已有则移除
+  toggle: (nodeId: string) => Promise<void>;
+  save: (breakpoint: Breakpoint) => Promise<void>;
+  setEnabled: (nodeId: string, enabled: boolean) => Promise<void>;
+  remove: (nodeId: string) => Promise<void>;
+  // 新建调试会话后把本地断点同步过去
+  applyToSession: () => Promise<void>;
+  openEditor: (nodeId: string | null) => void;
+}
+
+// 清空的字段显式传空串，后端据此删除原有条件
+function toOptions(breakpoint: Breakpoint): BreakpointOptions {
+  return {
+    condition: breakpoint.condition || '',
+    hitCondition: breakpoint.hitCondition || '',
+    logMessage: breakpoint.logMessage || '',
+    enabled: breakpoint.enabled,
+  };
+}
+
+function normalize(breakpoint: Breakpoint): Breakpoint {
+  return {
+    nodeId: breakpoint.nodeId,
+    condition: breakpoint.condition?.trim() || undefined,
+    hitCondition: breakpoint.hitCondition?.trim() || undefined,
+    logMessage: breakpoint.logMessage?.trim() || undefined,
+    enabled: breakpoint.enabled,
+  };
+}
+
+// 先改本地再同步后端；同步失败时本地仍保留，下次新建会话会重新下发
+export const useBreakpointStore = create<BreakpointState>((set, get) => {
+  const commit = (breakpoints: Record<string, Breakpoint>) => {
+    const { designId } = get();
+    if (designId) saveDraftBreakpoints(designId, breakpoints);
+    set({ breakpoints });
+  };
+
+  const hasSessionBreakpoint = (nodeId: string) => !!useDebugStore.getState().session?.breakpoints[nodeId];
+
+  return {
+    designId: null,
+    breakpoints: {},
+    editingNodeId: null,
+
+    load: (designId) => {
+      if (designId === get().designId) return;
+      set({
+        designId,
+        breakpoints: designId ? readDraftBreakpoints(designId) : {},
+        editingNodeId: null,
+      });
+    },
+
+    toggle: async (nodeId) => {
+      if (get().breakpoints[nodeId]) {
+        await get().remove(nodeId);
+      } else {
+        await get().save({ nodeId, enabled: true });
+      }
+    },
+
+    save: async (input) => {
+      const breakpoint = normalize(input);
+      commit({ ...get().breakpoints, [breakpoint.nodeId]: breakpoint });
+      const debug = useDebugStore.getState();
+      if (hasSessionBreakpoint(breakpoint.nodeId)) {
+        await debug.updateBreakpoint(breakpoint.nodeId, toOptions(breakpoint));
+      } else {
+        await debug.addBreakpoint(breakpoint.nodeId, toOptions(breakpoint));
+      }
+    },
+
+    setEnabled: async (nodeId, enabled) => {
+      // 只存在于会话中的断点，修改后也一并保存到草稿
+      const breakpoint = get().breakpoints[nodeId] || useDebugStore.getState().session?.breakpoints[nodeId];
+      if (!breakpoint) return;
+      await get().save({ ...breakpoint, enabled });
+    },
+
+    remove: async (nodeId) => {
+      const breakpoints = { ...get().breakpoints };
+      delete breakpoints[nodeId];
+      commit(breakpoints);
+      if (hasSessionBreakpoint(nodeId)) {
+        await useDebugStore.getState().removeBreakpoint(nodeId);
+      }
+    },
+
+    applyToSession: async () => {
+      const debug = useDebugStore.getState();
+      if (!debug.session) return;
+      for (const breakpoint of Object.values(get().breakpoints)) {
+        const existing = debug.session.breakpoints[breakpoint.nodeId];
+        if (!existing) {
+          await debug.addBreakpoint(breakpoint.nodeId, toOptions(breakpoint));
+        } else if (
+          existing.enabled !== breakpoint.enabled ||
+          (existing.condition || '') !== (breakpoint.condition || '') ||
+          (existing.hitCondition || '') !== (breakpoint.hitCondition || '') ||
+          (existing.logMessage || '') !== (breakpoint.logMessage || '')
+        ) {
+          await debug.updateBreakpoint(breakpoint.nodeId, toOptions(breakpoint));
+        }
+      }
+    },
+
+    openEditor: (nodeId) => set({ editingNodeId: nodeId }),
+  };
+});
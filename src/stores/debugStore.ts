@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import * as api from '../api/client';
 import type { DebugSession, ExecutionStep, DecisionTree, CaseWithDebugInfo } from '../types/workflow';
+import { createDebugSocket, type DebugSocket, type DebugSocketStatus } from '../utils/debugSocket';
 
 // 调试事件类型
 export type DebugEventType =
@@ -11,12 +12,15 @@ export type DebugEventType =
   | 'session_paused'
   | 'session_resumed'
   | 'session_completed'
+  | 'logpoint'
   | 'error';
 
 // 调试事件
 export interface DebugEvent {
   type: DebugEventType;
   sessionId: string;
+  // 会话内单调递增的序号，用于发现漏收的事件
+  seq?: number;
   timestamp: string;
   payload: unknown;
 }
@@ -26,14 +30,24 @@ interface DebugState {
   session: DebugSession | null;
 
   // WebSocket 连接
-  ws: WebSocket | null;
+  socket: DebugSocket | null;
+  connection: DebugSocketStatus;
 
   // 事件历史
   events: DebugEvent[];
 
+  // 上一次单步/继续之前的变量，用于标出这一步改变了哪些变量
+  variablesBeforeStep: Record<string, unknown> | null;
+
+  // 监视表达式，每步之后对当前变量求值
+  watchExpressions: string[];
+
   // 高亮的节点（当前执行位置）
   highlightedNodeId: string | null;
 
+  // 回放中定位到的节点，与实时执行位置分开显示
+  replayNodeId: string | null;
+
   // 加载状态
   loading: boolean;
   error: string | null;
@@ -51,6 +65,9 @@ interface DebugState {
   // WebSocket
   connect: (sessionId: string) => void;
   disconnect: () => void;
+  reconnectNow: () => void;
+  // 重连后通过接口重新拉取会话和时间线，返回会话状态已包含的最大事件 seq
+  resync: () => Promise<number | undefined>;
 
   // 调试控制
   step: () => Promise<api.StepResult | null>;
@@ -58,15 +75,20 @@ interface DebugState {
   pause: () => Promise<void>;
   stop: () => Promise<void>;
 
-  // 断点
-  addBreakpoint: (nodeId: string, condition?: string) => Promise<void>;
+  // 断点（均同步到后端）
+  addBreakpoint: (nodeId: string, options?: api.BreakpointOptions) => Promise<void>;
+  updateBreakpoint: (nodeId: string, options: api.BreakpointOptions) => Promise<void>;
   removeBreakpoint: (nodeId: string) => Promise<void>;
-  toggleBreakpoint: (nodeId: string) => void;
+  toggleBreakpoint: (nodeId: string) => Promise<void>;
 
   // 变量
   getVariables: () => Promise<Record<string, unknown>>;
   setVariable: (key: string, value: unknown) => Promise<void>;
 
+  // 监视表达式
+  addWatch: (expression: string) => void;
+  removeWatch: (index: number) => void;
+
   // 时间线
   loadTimeline: () => Promise<ExecutionStep[]>;
 
@@ -76,6 +98,7 @@ interface DebugState {
 
   // 高亮
   setHighlightedNode: (nodeId: string | null) => void;
+  setReplayNode: (nodeId: string | null) => void;
 
   // 案件调试
   loadCaseDebugInfo: (caseId: string) => Promise<CaseWithDebugInfo | null>;
@@ -86,11 +109,27 @@ interface DebugState {
   reset: () => void;
 }
 
+const idleConnection: DebugSocketStatus = { state: 'idle', attempt: 0, nextRetryAt: null };
+
+const WATCH_STORAGE_KEY = 'debug_watch_expressions';
+
+function readWatchExpressions(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(WATCH_STORAGE_KEY) || '[]') as string[];
+  } catch {
+    return [];
+  }
+}
+
 export const useDebugStore = create<DebugState>((set, get) => ({
   session: null,
-  ws: null,
+  socket: null,
+  connection: idleConnection,
   events: [],
+  variablesBeforeStep: null,
+  watchExpressions: readWatchExpressions(),
   highlightedNodeId: null,
+  replayNodeId: null,
   loading: false,
   error: null,
   caseDebugInfo: null,
@@ -100,7 +139,7 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     set({ loading: true, error: null });
     try {
       const session = await api.createDebugSession(instanceId, mode);
-      set({ session: session as DebugSession, loading: false });
+      set({ session: session as DebugSession, variablesBeforeStep: null, loading: false });
       return session as DebugSession;
     } catch (err: unknown) {
       const error = err as Error;
@@ -113,7 +152,7 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     set({ loading: true, error: null });
     try {
       const session = await api.getDebugSession(sessionId);
-      set({ session: session as DebugSession, loading: false });
+      set({ session: session as DebugSession, variablesBeforeStep: null, loading: false });
       if ((session as DebugSession).currentToken) {
         set({ highlightedNodeId: (session as DebugSession).currentToken!.currentNodeId });
       }
@@ -134,41 +173,56 @@ export const useDebugStore = create<DebugState>((set, get) => ({
   },
 
   connect: (sessionId) => {
+    get().disconnect();
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const ws = new WebSocket(`${protocol}//${window.location.host}/api/v1/debug/sessions/${sessionId}/events`);
-
-    ws.onmessage = (event) => {
-      try {
-        const debugEvent: DebugEvent = JSON.parse(event.data);
-        get().handleEvent(debugEvent);
-      } catch (err) {
-        console.error('Failed to parse WebSocket message:', err);
-      }
-    };
-
-    ws.onclose = () => {
-      set({ ws: null });
-    };
-
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
-
-    set({ ws });
+    const socket = createDebugSocket<DebugEvent>({
+      url: (since) =>
+        `${protocol}//${window.location.host}/api/v1/debug/sessions/${sessionId}/events${since > 0 ? `?since=${since}` : ''}`,
+      onEvent: (event) => get().handleEvent(event),
+      onStatus: (connection) => set({ connection }),
+      onResync: () => get().resync(),
+      initialSeq: get().session?.id === sessionId ? get().session?.lastSeq : undefined,
+      shouldReconnect: () => {
+        const { session } = get();
+        return session?.id === sessionId && session.status !== 'completed' && session.status !== 'error';
+      },
+    });
+    set({ socket });
   },
 
   disconnect: () => {
-    const { ws } = get();
-    if (ws) {
-      ws.close();
-      set({ ws: null });
+    const { socket } = get();
+    if (socket) {
+      socket.close();
+      set({ socket: null, connection: idleConnection });
     }
   },
 
+  reconnectNow: () => {
+    get().socket?.reconnectNow();
+  },
+
+  resync: async () => {
+    const { session } = get();
+    if (!session) return undefined;
+    const [fresh, timeline] = await Promise.all([
+      api.getDebugSession(session.id),
+      api.getTimeline(session.id),
+    ]);
+    // 期间会话可能已被停止或切换
+    if (get().session?.id !== session.id) return undefined;
+    set({
+      session: { ...(fresh as DebugSession), timeline: timeline as ExecutionStep[] },
+      highlightedNodeId: (fresh as DebugSession).currentToken?.currentNodeId ?? get().highlightedNodeId,
+    });
+    return (fresh as DebugSession).lastSeq;
+  },
+
   step: async () => {
     const { session } = get();
     if (!session) return null;
 
+    set({ variablesBeforeStep: session.variables });
     try {
       const result = await api.debugStep(session.id);
       set({ session: result.session as DebugSession });
@@ -187,6 +241,7 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     const { session } = get();
     if (!session) return;
 
+    set({ variablesBeforeStep: session.variables });
     try {
       await api.debugContinue(session.id);
       get().updateSession({ status: 'running' });
@@ -226,14 +281,14 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     }
   },
 
-  addBreakpoint: async (nodeId, condition) => {
+  addBreakpoint: async (nodeId, options = {}) => {
     const { session } = get();
     if (!session) return;
 
     try {
-      await api.addBreakpoint(session.id, nodeId, condition);
-      const breakpoints = { ...session.breakpoints };
-      breakpoints[nodeId] = { nodeId, condition, enabled: true };
+      await api.addBreakpoint(session.id, nodeId, options);
+      const breakpoints = { ...get().session?.breakpoints };
+      breakpoints[nodeId] = { enabled: true, ...options, nodeId, hitCount: 0 };
       get().updateSession({ breakpoints });
     } catch (err: unknown) {
       const error = err as Error;
@@ -242,14 +297,14 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     }
   },
 
-  removeBreakpoint: async (nodeId) => {
+  updateBreakpoint: async (nodeId, options) => {
     const { session } = get();
     if (!session) return;
 
     try {
-      await api.removeBreakpoint(session.id, nodeId);
-      const breakpoints = { ...session.breakpoints };
-      delete breakpoints[nodeId];
+      await api.updateBreakpoint(session.id, nodeId, options);
+      const breakpoints = { ...get().session?.breakpoints };
+      breakpoints[nodeId] = { ...(breakpoints[nodeId] || { nodeId, enabled: true }), ...options };
       get().updateSession({ breakpoints });
     } catch (err: unknown) {
       const error = err as Error;
@@ -258,18 +313,26 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     }
   },
 
-  toggleBreakpoint: (nodeId) => {
+  removeBreakpoint: async (nodeId) => {
     const { session } = get();
     if (!session) return;
 
-    const breakpoints = { ...session.breakpoints };
-    if (breakpoints[nodeId]) {
-      breakpoints[nodeId] = {
-        ...breakpoints[nodeId],
-        enabled: !breakpoints[nodeId].enabled,
-      };
+    try {
+      await api.removeBreakpoint(session.id, nodeId);
+      const breakpoints = { ...get().session?.breakpoints };
+      delete breakpoints[nodeId];
+      get().updateSession({ breakpoints });
+    } catch (err: unknown) {
+      const error = err as Error;
+      set({ error: error.message });
+      throw err;
     }
-    get().updateSession({ breakpoints });
+  },
+
+  toggleBreakpoint: async (nodeId) => {
+    const breakpoint = get().session?.breakpoints[nodeId];
+    if (!breakpoint) return;
+    await get().updateBreakpoint(nodeId, { enabled: !breakpoint.enabled });
   },
 
   getVariables: async () => {
@@ -293,8 +356,11 @@ export const useDebugStore = create<DebugState>((set, get) => ({
 
     try {
       await api.setVariable(session.id, key, value);
-      const variables = { ...session.variables, [key]: value };
+      const variables = { ...get().session?.variables, [key]: value };
       get().updateSession({ variables });
+      // 手动修改的值不算作这一步的变化
+      const { variablesBeforeStep } = get();
+      if (variablesBeforeStep) set({ variablesBeforeStep: { ...variablesBeforeStep, [key]: value } });
     } catch (err: unknown) {
       const error = err as Error;
       set({ error: error.message });
@@ -302,6 +368,18 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     }
   },
 
+  addWatch: (expression) => {
+    const watchExpressions = [...get().watchExpressions, expression];
+    localStorage.setItem(WATCH_STORAGE_KEY, JSON.stringify(watchExpressions));
+    set({ watchExpressions });
+  },
+
+  removeWatch: (index) => {
+    const watchExpressions = get().watchExpressions.filter((_, i) => i !== index);
+    localStorage.setItem(WATCH_STORAGE_KEY, JSON.stringify(watchExpressions));
+    set({ watchExpressions });
+  },
+
   loadTimeline: async () => {
     const { session } = get();
     if (!session) return [];
@@ -320,6 +398,17 @@ export const useDebugStore = create<DebugState>((set, get) => ({
   handleEvent: (event) => {
     set({ events: [...get().events, event] });
 
+    // 后端带了累计次数时以其为准，否则本地加一
+    const countBreakpointHit = (nodeId: string, hitCount?: number) => {
+      const breakpoint = get().session?.breakpoints[nodeId];
+      if (!breakpoint) return;
+      const breakpoints = {
+        ...get().session!.breakpoints,
+        [nodeId]: { ...breakpoint, hitCount: hitCount ?? (breakpoint.hitCount || 0) + 1 },
+      };
+      get().updateSession({ breakpoints });
+    };
+
     switch (event.type) {
       case 'node_entered': {
         const payload = event.payload as { node_id: string };
@@ -344,9 +433,16 @@ export const useDebugStore = create<DebugState>((set, get) => ({
         break;
       }
       case 'breakpoint_hit': {
-        const payload = event.payload as { node_id: string };
+        const payload = event.payload as { node_id: string; hit_count?: number };
         set({ highlightedNodeId: payload.node_id });
         get().updateSession({ status: 'paused' });
+        countBreakpointHit(payload.node_id, payload.hit_count);
+        break;
+      }
+      case 'logpoint': {
+        // 日志点只记录到事件日志，不暂停
+        const payload = event.payload as { node_id: string; hit_count?: number };
+        countBreakpointHit(payload.node_id, payload.hit_count);
         break;
       }
       case 'variable_changed': {
@@ -366,6 +462,8 @@ export const useDebugStore = create<DebugState>((set, get) => ({
 
   setHighlightedNode: (nodeId) => set({ highlightedNodeId: nodeId }),
 
+  setReplayNode: (nodeId) => set({ replayNodeId: nodeId }),
+
   // 案件调试方法
   loadCaseDebugInfo: async (caseId: string) => {
     set({ loading: true, error: null });
@@ -396,9 +494,12 @@ export const useDebugStore = create<DebugState>((set, get) => ({
     get().disconnect();
     set({
       session: null,
-      ws: null,
+      socket: null,
+      connection: idleConnection,
       events: [],
+      variablesBeforeStep: null,
       highlightedNodeId: null,
+      replayNodeId: null,
       loading: false,
       error: null,
       caseDebugInfo: null,
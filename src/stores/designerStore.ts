@@ -10,7 +10,43 @@ import {
   EdgeChange,
 } from '@xyflow/react';
 import * as api from '../api/client';
-import type { WorkflowDesign, DesignerNode, DesignerEdge, NodeTemplate } from '../types/workflow';
+import { validateWorkflowDesign } from '../utils/workflowValidator';
+import type {
+  WorkflowDesign,
+  DesignerNode,
+  DesignerEdge,
+  NodeTemplate,
+  ValidationResult,
+} from '../types/workflow';
+
+// 历史记录上限
+const HISTORY_LIMIT = 50;
+
+// 同一操作在该时间窗口内连续触发时合并为一条记录（如属性面板连续输入）
+const HISTORY_MERGE_WINDOW_MS = 800;
+
+// 画布上删除节点时 React Flow 在同一调用栈内先删除相连的边、再删除节点；
+// 同一批次（到下一个微任务前）的删除共用一个合并键，不同的删除操作互不合并
+let removalBatch = 0;
+let removalBatchOpen = false;
+
+function removalMergeKey(): string {
+  if (!removalBatchOpen) {
+    removalBatch += 1;
+    removalBatchOpen = true;
+    queueMicrotask(() => {
+      removalBatchOpen = false;
+    });
+  }
+  return `remove:${removalBatch}`;
+}
+
+// 历史快照
+export interface HistoryEntry {
+  label: string;
+  nodes: Node[];
+  edges: Edge[];
+}
 
 interface DesignerState {
   // 当前设计
@@ -33,12 +69,27 @@ interface DesignerState {
   saving: boolean;
   error: string | null;
 
+  // 验证结果与问题定位
+  validationResult: ValidationResult | null;
+  validationSource: 'server' | 'local' | null;
+  liveValidation: boolean;
+  highlightedField: string | null;
+
+  // 撤销/重做历史
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  lastHistoryKey: string | null;
+  lastHistoryAt: number;
+  dragging: boolean;
+
   // 操作
   loadTemplates: () => Promise<void>;
   setTemplates: (templates: NodeTemplate[]) => void;
   createDraft: (name: string, description?: string) => Promise<string>;
   loadDraft: (id: string) => Promise<void>;
   saveDraft: () => Promise<void>;
+  importDraft: (content: string) => Promise<WorkflowDesign>;
+  setDesign: (design: WorkflowDesign) => void;
 
   setNodes: (nodes: Node[]) => void;
   setEdges: (edges: Edge[]) => void;
@@ -57,13 +108,24 @@ interface DesignerState {
   selectNode: (nodeId: string | null) => void;
   selectEdge: (edgeId: string | null) => void;
 
+  // 撤销/重做
+  pushHistory: (label: string, mergeKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+  clearStaleSelection: () => void;
+
   // 转换函数
   toDesignerNodes: () => DesignerNode[];
   toDesignerEdges: () => DesignerEdge[];
 
   // 验证与发布
-  validate: () => Promise<api.ValidationResult>;
+  validate: () => Promise<ValidationResult>;
+  validateLocal: () => ValidationResult;
+  setLiveValidation: (enabled: boolean) => void;
   publish: () => Promise<string>;
+  setValidationResult: (result: ValidationResult | null) => void;
+  focusIssue: (issue: { nodeId?: string; edgeId?: string; field?: string }) => void;
 
   // 清空
   reset: () => void;
@@ -80,6 +142,13 @@ const toFlowNode = (node: DesignerNode): Node => ({
   },
 });
 
+// 节点修改涉及的字段，properties 展开到具体属性，避免连续修改不同属性被合并成一步撤销
+const nodeFieldKey = (data: Partial<DesignerNode>): string =>
+  Object.keys(data)
+    .flatMap((key) => (key === 'properties' ? Object.keys(data.properties || {}).map((p) => `properties.${p}`) : [key]))
+    .sort()
+    .join(',');
+
 // 将 DesignerEdge 转换为 React Flow Edge
 const toFlowEdge = (edge: DesignerEdge): Edge => ({
   id: edge.id,
@@ -106,6 +175,15 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
   loading: false,
   saving: false,
   error: null,
+  validationResult: null,
+  validationSource: null,
+  liveValidation: false,
+  highlightedField: null,
+  past: [],
+  future: [],
+  lastHistoryKey: null,
+  lastHistoryAt: 0,
+  dragging: false,
 
   loadTemplates: async () => {
     try {
@@ -134,7 +212,8 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
       const design = await api.createDraft({ name, description, addDefaultNodes: true });
       const nodes = (design as WorkflowDesign).nodes.map(toFlowNode);
       const edges = (design as WorkflowDesign).edges.map(toFlowEdge);
-      set({ design: design as WorkflowDesign, designId: design.id, nodes, edges, loading: false });
+      set({ design: design as WorkflowDesign, designId: design.id, nodes, edges, loading: false, validationResult: null });
+      get().clearHistory();
       return design.id;
     } catch (err: unknown) {
       const error = err as Error;
@@ -149,7 +228,8 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
       const design = await api.getDraft(id);
       const nodes = (design as WorkflowDesign).nodes.map(toFlowNode);
       const edges = (design as WorkflowDesign).edges.map(toFlowEdge);
-      set({ design: design as WorkflowDesign, designId: id, nodes, edges, loading: false });
+      set({ design: design as WorkflowDesign, designId: id, nodes, edges, loading: false, validationResult: null });
+      get().clearHistory();
     } catch (err: unknown) {
       const error = err as Error;
       set({ loading: false, error: error.message });
@@ -157,6 +237,34 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
     }
   },
 
+  importDraft: async (content) => {
+    set({ loading: true, error: null });
+    try {
+      const design = (await api.importDesign(content)) as WorkflowDesign;
+      get().setDesign(design);
+      set({ loading: false });
+      return design;
+    } catch (err: unknown) {
+      const message = api.getErrorMessage(err, '导入失败');
+      set({ loading: false, error: message });
+      throw err;
+    }
+  },
+
+  setDesign: (design) => {
+    set({
+      design,
+      designId: design.id,
+      nodes: (design.nodes || []).map(toFlowNode),
+      edges: (design.edges || []).map(toFlowEdge),
+      selectedNodeId: null,
+      selectedEdgeId: null,
+      validationResult: null,
+      highlightedField: null,
+    });
+    get().clearHistory();
+  },
+
   saveDraft: async () => {
     const { designId } = get();
     if (!designId) return;
@@ -168,8 +276,7 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
       const design = await api.updateDraft(designId, { nodes: nodes as api.DesignerNode[], edges: edges as api.DesignerEdge[] });
       set({ design: design as WorkflowDesign, saving: false });
     } catch (err: unknown) {
-      const error = err as Error;
-      set({ saving: false, error: error.message });
+      set({ saving: false, error: api.getErrorMessage(err, '保存失败') });
       throw err;
     }
   },
@@ -178,14 +285,31 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
   setEdges: (edges) => set({ edges }),
 
   onNodesChange: (changes) => {
+    // 拖拽开始时记录一次快照，拖拽过程中的位置变化不再记录
+    const dragChanges = changes.filter((c) => c.type === 'position');
+    const isDragging = dragChanges.some((c) => c.type === 'position' && c.dragging);
+    if (isDragging && !get().dragging) {
+      get().pushHistory('移动节点');
+      set({ dragging: true });
+    } else if (dragChanges.length > 0 && !isDragging && get().dragging) {
+      set({ dragging: false });
+    }
+
+    if (changes.some((c) => c.type === 'remove')) {
+      get().pushHistory('删除节点', removalMergeKey());
+    }
     set({ nodes: applyNodeChanges(changes, get().nodes) });
   },
 
   onEdgesChange: (changes) => {
+    if (changes.some((c) => c.type === 'remove')) {
+      get().pushHistory('删除连线', removalMergeKey());
+    }
     set({ edges: applyEdgeChanges(changes, get().edges) });
   },
 
   onConnect: (connection) => {
+    get().pushHistory('添加连线');
     const newEdge: Edge = {
       ...connection,
       id: `edge-${Date.now()}`,
@@ -197,12 +321,14 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
   },
 
   addNode: (node) => {
+    get().pushHistory('添加节点');
     const id = node.id || `${node.type}-${Date.now()}`;
     const flowNode = toFlowNode({ ...node, id } as DesignerNode);
     set({ nodes: [...get().nodes, flowNode] });
   },
 
   updateNode: (nodeId, data) => {
+    get().pushHistory('修改节点', `node:${nodeId}:${nodeFieldKey(data)}`);
     set({
       nodes: get().nodes.map((node) =>
         node.id === nodeId
@@ -217,6 +343,7 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
   },
 
   deleteNode: (nodeId) => {
+    get().pushHistory('删除节点');
     set({
       nodes: get().nodes.filter((node) => node.id !== nodeId),
       edges: get().edges.filter((edge) => edge.source !== nodeId && edge.target !== nodeId),
@@ -225,12 +352,14 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
   },
 
   addEdge: (edge) => {
+    get().pushHistory('添加连线');
     const id = `edge-${Date.now()}`;
     const flowEdge = toFlowEdge({ ...edge, id });
     set({ edges: [...get().edges, flowEdge] });
   },
 
   updateEdge: (edgeId, data) => {
+    get().pushHistory('修改连线', `edge:${edgeId}:${Object.keys(data).sort().join(',')}`);
     set({
       edges: get().edges.map((edge) =>
         edge.id === edgeId
@@ -249,14 +378,74 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
   },
 
   deleteEdge: (edgeId) => {
+    get().pushHistory('删除连线');
     set({
       edges: get().edges.filter((edge) => edge.id !== edgeId),
       selectedEdgeId: get().selectedEdgeId === edgeId ? null : get().selectedEdgeId,
     });
   },
 
-  selectNode: (nodeId) => set({ selectedNodeId: nodeId, selectedEdgeId: null }),
-  selectEdge: (edgeId) => set({ selectedEdgeId: edgeId, selectedNodeId: null }),
+  selectNode: (nodeId) => set({ selectedNodeId: nodeId, selectedEdgeId: null, highlightedField: null }),
+  selectEdge: (edgeId) => set({ selectedEdgeId: edgeId, selectedNodeId: null, highlightedField: null }),
+
+  pushHistory: (label, mergeKey) => {
+    const { nodes, edges, past, lastHistoryKey, lastHistoryAt } = get();
+    const now = Date.now();
+    if (mergeKey && mergeKey === lastHistoryKey && now - lastHistoryAt < HISTORY_MERGE_WINDOW_MS) {
+      // 沿用最早的快照，标签取最近一次操作（删除节点时先删连线再删节点）
+      set({
+        lastHistoryAt: now,
+        past: past.map((entry, i) => (i === past.length - 1 ? { ...entry, label } : entry)),
+      });
+      return;
+    }
+    set({
+      past: [...past, { label, nodes, edges }].slice(-HISTORY_LIMIT),
+      future: [],
+      lastHistoryKey: mergeKey ?? null,
+      lastHistoryAt: now,
+    });
+  },
+
+  undo: () => {
+    const { past, future, nodes, edges } = get();
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    set({
+      nodes: entry.nodes,
+      edges: entry.edges,
+      past: past.slice(0, -1),
+      future: [{ label: entry.label, nodes, edges }, ...future].slice(0, HISTORY_LIMIT),
+      lastHistoryKey: null,
+      dragging: false,
+    });
+    get().clearStaleSelection();
+  },
+
+  redo: () => {
+    const { past, future, nodes, edges } = get();
+    const entry = future[0];
+    if (!entry) return;
+    set({
+      nodes: entry.nodes,
+      edges: entry.edges,
+      past: [...past, { label: entry.label, nodes, edges }].slice(-HISTORY_LIMIT),
+      future: future.slice(1),
+      lastHistoryKey: null,
+      dragging: false,
+    });
+    get().clearStaleSelection();
+  },
+
+  clearHistory: () => set({ past: [], future: [], lastHistoryKey: null, lastHistoryAt: 0, dragging: false }),
+
+  clearStaleSelection: () => {
+    const { nodes, edges, selectedNodeId, selectedEdgeId } = get();
+    set({
+      selectedNodeId: selectedNodeId && nodes.some((n) => n.id === selectedNodeId) ? selectedNodeId : null,
+      selectedEdgeId: selectedEdgeId && edges.some((e) => e.id === selectedEdgeId) ? selectedEdgeId : null,
+    });
+  },
 
   toDesignerNodes: () => {
     return get().nodes.map((node) => ({
@@ -286,7 +475,42 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
   validate: async () => {
     const { designId } = get();
     if (!designId) throw new Error('No design loaded');
-    return api.validateDesign(designId);
+    try {
+      const result = (await api.validateDesign(designId)) as ValidationResult;
+      set({ validationResult: result, validationSource: 'server' });
+      return result;
+    } catch (err) {
+      // 只有后端不可用时才退回本地结构校验，validationSource 会标记为 local；其他错误照常抛出
+      if (!api.isNetworkError(err)) throw new Error(api.getErrorMessage(err, '校验失败'));
+      return get().validateLocal();
+    }
+  },
+
+  validateLocal: () => {
+    const result = validateWorkflowDesign(
+      { nodes: get().toDesignerNodes(), edges: get().toDesignerEdges() },
+      get().templates
+    );
+    set({ validationResult: result, validationSource: 'local' });
+    return result;
+  },
+
+  setLiveValidation: (enabled) => {
+    set({ liveValidation: enabled });
+    if (enabled) {
+      get().validateLocal();
+    }
+  },
+
+  setValidationResult: (result) =>
+    set({ validationResult: result, validationSource: result ? get().validationSource : null }),
+
+  focusIssue: (issue) => {
+    if (issue.edgeId) {
+      set({ selectedEdgeId: issue.edgeId, selectedNodeId: null, highlightedField: issue.field ?? null });
+    } else if (issue.nodeId) {
+      set({ selectedNodeId: issue.nodeId, selectedEdgeId: null, highlightedField: issue.field ?? null });
+    }
   },
 
   publish: async () => {
@@ -305,6 +529,9 @@ export const useDesignerStore = create<DesignerState>((set, get) => ({
       selectedNodeId: null,
       selectedEdgeId: null,
       error: null,
+      validationResult: null,
+      highlightedField: null,
     });
+    get().clearHistory();
   },
 }));
@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import type { SSOSyncJob, SSOSyncJobDetail } from '../types/user';
+import * as api from '../api/client';
+import { useUserStore } from './userStore';
+
+const POLL_INTERVAL = 2000;
+// 连续失败时按 2 倍退避，超过次数后停止轮询并提示
+const MAX_POLL_FAILURES = 5;
+
+interface SSOSyncState {
+  history: SSOSyncJob[];
+  historyLoading: boolean;
+  // 正在运行的任务（用于在按钮上显示进度）
+  runningJob: SSOSyncJob | null;
+  // 正在查看报告的任务
+  viewingJob: SSOSyncJobDetail | null;
+  viewingLoading: boolean;
+  starting: boolean;
+  error: string | null;
+
+  loadHistory: () => Promise<void>;
+  startSync: () => Promise<void>;
+  viewJob: (jobId: string) => Promise<void>;
+  // 离开页面时停止轮询
+  stopPolling: () => void;
+  clearError: () => void;
+}
+
+export const isSyncJobActive = (job: SSOSyncJob) => job.status === 'pending' || job.status === 'running';
+
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+// 正在轮询的任务
+let pollingJobId: string | null = null;
+// 每次重新开始或停止轮询都递增，进行中的请求返回时据此丢弃过期结果
+let pollGeneration = 0;
+
+const stopPollTimer = () => {
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = null;
+  pollingJobId = null;
+  pollGeneration += 1;
+};
+
+export const useSSOSyncStore = create<SSOSyncState>((set, get) => {
+  // 轮询运行中的任务直到结束；同一时间只轮询一个任务
+  const poll = (jobId: string, failures = 0) => {
+    stopPollTimer();
+    pollingJobId = jobId;
+    const generation = pollGeneration;
+    pollTimer = setTimeout(async () => {
+      pollTimer = null;
+      let job: SSOSyncJobDetail;
+      try {
+        job = await api.getSSOSyncJob(jobId);
+      } catch (err) {
+        if (generation !== pollGeneration) return;
+        const message = api.getErrorMessage(err, '获取同步进度失败');
+        if (failures + 1 >= MAX_POLL_FAILURES) {
+          pollingJobId = null;
+          set({ runningJob: null, error: `${message}，已停止跟踪同步进度，可重新打开同步记录查看` });
+          return;
+        }
+        poll(jobId, failures + 1);
+        return;
+      }
+      if (generation !== pollGeneration) return;
+      set((state) => ({
+        runningJob: isSyncJobActive(job) ? job : null,
+        viewingJob: state.viewingJob?.id === jobId ? job : state.viewingJob,
+        history: state.history.map((h) => (h.id === jobId ? job : h)),
+      }));
+      if (isSyncJobActive(job)) {
+        poll(jobId);
+      } else {
+        pollingJobId = null;
+        // 同步结束后刷新用户列表
+        useUserStore.getState().refresh();
+        get().loadHistory();
+      }
+    }, POLL_INTERVAL * 2 ** failures);
+  };
+
+  return {
+    history: [],
+    historyLoading: false,
+    runningJob: null,
+    viewingJob: null,
+    viewingLoading: false,
+    starting: false,
+    error: null,
+
+    loadHistory: async () => {
+      set({ historyLoading: true });
+      try {
+        const history = await api.listSSOSyncJobs();
+        const running = history.find(isSyncJobActive) || null;
+        set({ history, historyLoading: false, runningJob: running });
+        // 页面刷新后继续跟踪未结束的任务
+        if (running && pollingJobId !== running.id) poll(running.id);
+      } catch (err) {
+        set({ historyLoading: false, error: api.getErrorMessage(err, '加载同步历史失败') });
+      }
+    },
+
+    startSync: async () => {
+      set({ starting: true, error: null });
+      try {
+        const job = await api.startSSOSync();
+        const active = isSyncJobActive(job);
+        set((state) => ({
+          starting: false,
+          runningJob: active ? job : null,
+          viewingJob: { ...job, results: [] },
+          history: [job, ...state.history.filter((h) => h.id !== job.id)],
+        }));
+        if (active) {
+          poll(job.id);
+        } else {
+          // 旧接口同步完成后才返回
+          useUserStore.getState().refresh();
+        }
+      } catch (err) {
+        set({ starting: false, error: api.getErrorMessage(err, '启动同步失败') });
+      }
+    },
+
+    viewJob: async (jobId) => {
+      // 旧接口生成的任务只在本地，没有可查询的报告
+      if (jobId.startsWith(api.LEGACY_SSO_SYNC_JOB_PREFIX)) {
+        const job = get().history.find((h) => h.id === jobId);
+        if (job) set({ viewingJob: { ...job, results: [] } });
+        return;
+      }
+      set({ viewingLoading: true, error: null });
+      try {
+        const job = await api.getSSOSyncJob(jobId);
+        set({ viewingJob: job, viewingLoading: false });
+      } catch (err) {
+        set({ viewingLoading: false, error: api.getErrorMessage(err, '加载同步报告失败') });
+      }
+    },
+
+    stopPolling: stopPollTimer,
+
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
@@ -8,6 +8,7 @@ import type {
   TagStoreState,
 } from '../types/tag';
 import * as api from '../api/client';
+import { getSelectedAcademicYear } from './academicYearStore';
 
 interface TagStoreActions {
   // Tag definitions
@@ -23,7 +24,7 @@ interface TagStoreActions {
   removeTag: (userId: number, tagName: string, academicYear?: string) => Promise<void>;
 
   // Query
-  queryByTags: (condition: TagCondition, page?: number, limit?: number) => Promise<void>;
+  queryByTags: (condition: TagCondition, page?: number, limit?: number, academicYear?: string) => Promise<void>;
   setQueryPage: (page: number) => void;
 
   // Error handling
@@ -46,6 +47,7 @@ export const useTagStore = create<TagStore>((set, get) => ({
   queryPage: 1,
   queryLimit: 20,
   queryLoading: false,
+  queryError: null,
 
   error: null,
 
@@ -116,7 +118,7 @@ export const useTagStore = create<TagStore>((set, get) => ({
 
   // ========== User Tag Actions ==========
 
-  loadUserTags: async (userId: number, academicYear?: string) => {
+  loadUserTags: async (userId: number, academicYear = getSelectedAcademicYear()) => {
     set({ userTagsLoading: true, error: null });
     try {
       const tags = await api.getUserTags(userId, academicYear);
@@ -135,9 +137,10 @@ export const useTagStore = create<TagStore>((set, get) => ({
   assignTag: async (userId: number, data: AssignTagRequest) => {
     set({ error: null });
     try {
-      await api.assignUserTag(userId, data);
+      const academicYear = data.academic_year || getSelectedAcademicYear();
+      await api.assignUserTag(userId, { ...data, academic_year: academicYear });
       // Reload user tags after assignment
-      await get().loadUserTags(userId, data.academic_year);
+      await get().loadUserTags(userId, academicYear);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to assign tag';
       set({ error: message });
@@ -145,7 +148,7 @@ export const useTagStore = create<TagStore>((set, get) => ({
     }
   },
 
-  removeTag: async (userId: number, tagName: string, academicYear?: string) => {
+  removeTag: async (userId: number, tagName: string, academicYear = getSelectedAcademicYear()) => {
     set({ error: null });
     try {
       await api.removeUserTag(userId, tagName, academicYear);
@@ -160,10 +163,10 @@ export const useTagStore = create<TagStore>((set, get) => ({
 
   // ========== Query Actions ==========
 
-  queryByTags: async (condition: TagCondition, page = 1, limit = 20) => {
-    set({ queryLoading: true, error: null });
+  queryByTags: async (condition: TagCondition, page = 1, limit = 20, academicYear = getSelectedAcademicYear()) => {
+    set({ queryLoading: true, queryError: null, error: null });
     try {
-      const result = await api.queryUsersByTags(condition, page, limit);
+      const result = await api.queryUsersByTags(condition, page, limit, academicYear);
       set({
         queryResults: result.users,
         queryTotal: result.total,
@@ -172,10 +175,8 @@ export const useTagStore = create<TagStore>((set, get) => ({
         queryLoading: false,
       });
     } catch (err) {
-      set({
-        queryLoading: false,
-        error: err instanceof Error ? err.message : 'Failed to query users by tags',
-      });
+      const message = api.getErrorMessage(err, 'Failed to query users by tags');
+      set({ queryLoading: false, queryError: message, error: message });
     }
   },
 
@@ -0,0 +1,148 @@
+import { create } from 'zustand';
+import type { UserListItem, UserStoreState } from '../types/user';
+import * as api from '../api/client';
+import { getSelectedAcademicYear } from './academicYearStore';
+
+// 列表缓存有效期
+const CACHE_TTL = 60 * 1000;
+
+interface CachedPage {
+  items: UserListItem[];
+  total: number;
+  isMock: boolean;
+  fetchedAt: number;
+}
+
+interface UserStoreActions {
+  fetchUsers: (options?: { force?: boolean }) => Promise<void>;
+  setPage: (page: number) => void;
+  setFilters: (filters: { keyword?: string; role?: string }) => void;
+  // 清空缓存并重新加载当前页
+  refresh: () => Promise<void>;
+  // 只重新加载指定用户的标签（编辑标签后使用）
+  reloadTags: (userIds: number[]) => Promise<void>;
+  clearError: () => void;
+}
+
+type UserStore = UserStoreState & UserStoreActions;
+
+// 缓存键：分页、筛选条件和学年
+const pageCache = new Map<string, CachedPage>();
+let latestRequest = 0;
+
+function cacheKey(state: UserStoreState, academicYear: string) {
+  return JSON.stringify([state.page, state.limit, state.keyword, state.role, academicYear]);
+}
+
+export const useUserStore = create<UserStore>((set, get) => ({
+  items: [],
+  total: 0,
+  page: 1,
+  limit: 20,
+  keyword: '',
+  role: '',
+  loading: false,
+  tagsLoading: false,
+  isMock: false,
+
+  error: null,
+
+  fetchUsers: async ({ force = false } = {}) => {
+    const state = get();
+    const academicYear = getSelectedAcademicYear();
+    const key = cacheKey(state, academicYear);
+    // 命中缓存也要作废进行中的请求，否则较慢的旧请求返回后会覆盖当前页
+    const requestId = ++latestRequest;
+    const cached = pageCache.get(key);
+    if (!force && cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+      set({
+        items: cached.items,
+        total: cached.total,
+        isMock: cached.isMock,
+        loading: false,
+        tagsLoading: false,
+        error: null,
+      });
+      return;
+    }
+
+    set({ loading: true, error: null });
+    const { data, isMock } = await api.listUsersWithMock({
+      page: state.page,
+      limit: state.limit,
+      keyword: state.keyword || undefined,
+      role: state.role || undefined,
+    });
+    if (requestId !== latestRequest) return;
+
+    // 先展示用户，标签随后填充
+    const users = data.items;
+    set({
+      items: users.map((user) => ({ user, tags: isMock ? {} : null })),
+      total: data.total,
+      isMock,
+      loading: false,
+      tagsLoading: !isMock && users.length > 0,
+    });
+
+    let tagsByUser: Record<number, Record<string, string>> = {};
+    if (!isMock && users.length > 0) {
+      try {
+        tagsByUser = await api.getUsersTagsBatch(
+          users.map((u) => u.id),
+          academicYear
+        );
+      } catch (err) {
+        if (requestId === latestRequest) set({ error: api.getErrorMessage(err, '加载用户标签失败') });
+      }
+      if (requestId !== latestRequest) return;
+    }
+
+    const items = users.map((user) => ({ user, tags: isMock ? {} : tagsByUser[user.id] || null }));
+    // 标签没取全的页不缓存，下次进入时重新拉取
+    if (items.every((item) => item.tags !== null)) {
+      pageCache.set(key, { items, total: data.total, isMock, fetchedAt: Date.now() });
+    }
+    set({ items, tagsLoading: false });
+  },
+
+  setPage: (page) => {
+    set({ page });
+    get().fetchUsers();
+  },
+
+  setFilters: ({ keyword, role }) => {
+    set((state) => ({
+      keyword: keyword ?? state.keyword,
+      role: role ?? state.role,
+      page: 1,
+    }));
+    get().fetchUsers();
+  },
+
+  refresh: async () => {
+    pageCache.clear();
+    await get().fetchUsers({ force: true });
+  },
+
+  reloadTags: async (userIds) => {
+    const ids = userIds.filter((id) => get().items.some((item) => item.user.id === id));
+    if (ids.length === 0 || get().isMock) return;
+    // 其他页面的缓存里可能也有这些用户，统一失效
+    pageCache.clear();
+    try {
+      const tagsByUser = await api.getUsersTagsBatch(ids, getSelectedAcademicYear());
+      set((state) => ({
+        items: state.items.map((item) =>
+          item.user.id in tagsByUser ? { ...item, tags: tagsByUser[item.user.id] } : item
+        ),
+      }));
+    } catch (err) {
+      set({ error: api.getErrorMessage(err, '加载用户标签失败') });
+    }
+  },
+
+  clearError: () => {
+    set({ error: null });
+  },
+}));
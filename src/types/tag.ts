@@ -110,6 +110,85 @@ export interface QueryByTagsResponse {
   limit: number;
 }
 
+// ================================================================================
+// Bulk Operation Types
+// ================================================================================
+
+// assign: 仅给尚未拥有该标签的用户赋值；overwrite: 覆盖已有值；remove: 移除标签
+export type BulkTagAction = 'assign' | 'overwrite' | 'remove';
+
+export type BulkTagTarget =
+  | { type: 'users'; users: { id: number; display_name: string }[] }
+  | { type: 'condition'; condition: TagCondition };
+
+export type BulkTagItemStatus = 'pending' | 'success' | 'skipped' | 'failed';
+
+export interface BulkTagItemResult {
+  userId: number;
+  displayName: string;
+  status: BulkTagItemStatus;
+  error?: string;
+}
+
+// ================================================================================
+// CSV Import Types
+// ================================================================================
+
+// CSV 中用于定位用户的列
+export type UserKeyColumn = 'id' | 'student_id' | 'username';
+
+export type TagChangeType = 'added' | 'changed' | 'removed';
+
+export interface TagImportChange {
+  tagName: string;
+  type: TagChangeType;
+  oldValue?: string;
+  newValue?: string;
+}
+
+export interface TagImportRowError {
+  row: number; // CSV 行号（含表头，从 1 开始）
+  column?: string;
+  value?: string;
+  message: string;
+}
+
+export interface TagImportUserDiff {
+  row: number;
+  userId: number;
+  displayName: string;
+  changes: TagImportChange[];
+}
+
+// ================================================================================
+// Schema Evolution Types
+// ================================================================================
+
+// 工作流设计中对标签的一处引用
+export interface TagReference {
+  nodeId?: string;
+  edgeId?: string;
+  location: string;
+  // 条件中与该标签比较的值，无法解析时为空
+  values: string[];
+}
+
+export interface TagDraftImpact {
+  draftId: string;
+  draftName: string;
+  references: TagReference[];
+}
+
+export interface TagValueUsage {
+  value: string;
+  userCount: number;
+  // 学年 -> 持有该值的用户数，只包含大于 0 的学年
+  byYear: Record<string, number>;
+}
+
+// 旧值 -> 新值；null 表示保留原值不迁移
+export type TagValueMigration = Record<string, string | null>;
+
 // ================================================================================
 // Store State Types
 // ================================================================================
@@ -130,6 +209,8 @@ export interface TagStoreState {
   queryPage: number;
   queryLimit: number;
   queryLoading: boolean;
+  // 最近一次条件查询失败的原因（后端不可用时改为本地预览）
+  queryError: string | null;
 
   // Error state
   error: string | null;
@@ -0,0 +1,99 @@
+// ================================================================================
+// SSO User Types
+// ================================================================================
+
+export interface SSOUser {
+  id: number;
+  sso_id: string;
+  username: string;
+  email: string;
+  display_name: string;
+  department: string;
+  grade: string;
+  class_name: string;
+  student_id: string;
+  role: string;
+  is_active: boolean;
+}
+
+export interface ListUsersParams {
+  page?: number;
+  limit?: number;
+  keyword?: string;
+  role?: string;
+}
+
+export interface ListUsersResponse {
+  items: SSOUser[];
+  total: number;
+}
+
+// 旧版同步接口（POST /users/sync-sso）的汇总结果
+export interface SSOSyncResult {
+  synced: number;
+  failed: number;
+}
+
+// ================================================================================
+// SSO Sync Job Types
+// ================================================================================
+
+export type SSOSyncJobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export type SSOSyncUserAction = 'created' | 'updated' | 'deactivated' | 'failed';
+
+export interface SSOSyncUserResult {
+  sso_id: string;
+  username?: string;
+  display_name?: string;
+  // 同步失败且本地没有对应账号时为空
+  user_id?: number;
+  action: SSOSyncUserAction;
+  error?: string;
+}
+
+export interface SSOSyncJob {
+  id: string;
+  status: SSOSyncJobStatus;
+  started_at: string;
+  finished_at?: string;
+  // SSO 返回的用户总数，拉取完成前为 0
+  total: number;
+  processed: number;
+  created: number;
+  updated: number;
+  deactivated: number;
+  failed: number;
+  // 整个任务失败的原因（如 SSO 不可达）
+  error?: string;
+  triggered_by?: string;
+}
+
+export interface SSOSyncJobDetail extends SSOSyncJob {
+  results: SSOSyncUserResult[];
+}
+
+// ================================================================================
+// Store State Types
+// ================================================================================
+
+export interface UserListItem {
+  user: SSOUser;
+  // 当前学年的标签；加载失败时为 null
+  tags: Record<string, string> | null;
+}
+
+export interface UserStoreState {
+  items: UserListItem[];
+  total: number;
+  page: number;
+  limit: number;
+  keyword: string;
+  role: string;
+  loading: boolean;
+  tagsLoading: boolean;
+  // 列表来自模拟数据（用户 API 不可用）
+  isMock: boolean;
+
+  error: string | null;
+}
@@ -1,3 +1,5 @@
+import type { TagCondition } from './tag';
+
 // 节点类型
 export type NodeType =
   | 'start'
@@ -120,6 +122,12 @@ export interface NodeTemplate {
   configurable: ConfigField[];
 }
 
+// 处理人配置：指定用户、角色或按标签条件动态匹配
+export type AssigneeConfig =
+  | { type: 'user'; userId: number; displayName?: string }
+  | { type: 'role'; role: string }
+  | { type: 'tags'; condition: TagCondition };
+
 // 配置字段
 export interface ConfigField {
   key: string;
@@ -166,8 +174,15 @@ export type SessionStatus = 'paused' | 'running' | 'completed' | 'error';
 // 断点
 export interface Breakpoint {
   nodeId: string;
+  // 条件表达式，为真时才暂停
   condition?: string;
+  // 命中次数条件，如 ">= 3"、"== 5"、"% 2"
+  hitCondition?: string;
+  // 设置后为日志点：不暂停，把消息（可含 {表达式}）输出到事件日志
+  logMessage?: string;
   enabled: boolean;
+  // 本次会话中已命中的次数（由后端统计）
+  hitCount?: number;
 }
 
 // Token 快照
@@ -208,6 +223,8 @@ export interface DebugSession {
   variables: Record<string, unknown>;
   breakpoints: Record<string, Breakpoint>;
   timeline: ExecutionStep[];
+  // 会话状态已包含的最大事件序号（旧版后端不返回）
+  lastSeq?: number;
   createdBy: string;
   createdAt: string;
 }
@@ -221,12 +238,15 @@ export type DebugEventType =
   | 'session_paused'
   | 'session_resumed'
   | 'session_completed'
+  | 'logpoint'
   | 'error';
 
 // 调试事件
 export interface DebugEvent {
   type: DebugEventType;
   sessionId: string;
+  // 会话内单调递增的序号，用于发现漏收的事件
+  seq?: number;
   timestamp: string;
   payload: unknown;
 }
@@ -0,0 +1,41 @@
+// 学年工具函数，学年格式为 "2024-2025"
+
+const ACADEMIC_YEAR_PATTERN = /^(\d{4})-(\d{4})$/;
+
+// 学年从 9 月开始
+const ACADEMIC_YEAR_START_MONTH = 8;
+
+export function isAcademicYear(value: string): boolean {
+  const match = ACADEMIC_YEAR_PATTERN.exec(value);
+  return !!match && Number(match[2]) === Number(match[1]) + 1;
+}
+
+// 根据日期推算学年（配置不可用时的默认值）
+export function guessAcademicYear(date = new Date()): string {
+  const start = date.getMonth() >= ACADEMIC_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${start + 1}`;
+}
+
+// 相对给定学年偏移若干年，格式不合法时返回 null
+export function shiftAcademicYear(year: string, offset: number): string | null {
+  if (!isAcademicYear(year)) return null;
+  const start = Number(year.slice(0, 4)) + offset;
+  return `${start}-${start + 1}`;
+}
+
+export function previousAcademicYear(year: string): string | null {
+  return shiftAcademicYear(year, -1);
+}
+
+// 界面上可选的学年：下一学年到往前 yearsBack - 1 个学年，从新到旧
+export function selectableAcademicYears(current: string, yearsBack = 6): string[] {
+  const next = shiftAcademicYear(current, 1);
+  return [...(next ? [next] : []), ...recentAcademicYears(current, yearsBack)];
+}
+
+// 以 current 为最新的若干个学年，从新到旧
+export function recentAcademicYears(current: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => shiftAcademicYear(current, -i)).filter(
+    (y): y is string => y !== null
+  );
+}
@@ -0,0 +1,65 @@
+// As-User 审计日志：代为操作期间发出的写请求，保存在本地
+
+const STORAGE_KEY = 'as_user_audit';
+// 只保留最近的记录
+const MAX_ENTRIES = 500;
+
+export interface AsUserAuditEntry {
+  id: string;
+  // 请求发出时间（ISO）
+  time: string;
+  asUser: string;
+  method: string;
+  url: string;
+  // HTTP 状态码，网络错误时为空
+  status?: number;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+
+export const isMutatingMethod = (method?: string) => !!method && MUTATING_METHODS.includes(method.toLowerCase());
+
+const listeners = new Set<() => void>();
+
+export function readAsUserAudit(): AsUserAuditEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AsUserAuditEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordAsUserRequest(entry: Omit<AsUserAuditEntry, 'id'>) {
+  const entries = readAsUserAudit();
+  entries.unshift({ ...entry, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  listeners.forEach((l) => l());
+}
+
+export function clearAsUserAudit() {
+  localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach((l) => l());
+}
+
+export function subscribeAsUserAudit(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// 与某个模拟执行节点时间接近的审计记录，用于解释决策树里的模拟节点
+export function findAuditEntriesNear(
+  entries: AsUserAuditEntry[],
+  asUser: string,
+  at: string,
+  windowMs = 60 * 1000
+): AsUserAuditEntry[] {
+  const target = new Date(at).getTime();
+  if (Number.isNaN(target)) return [];
+  return entries.filter((e) => e.asUser === asUser && Math.abs(new Date(e.time).getTime() - target) <= windowMs);
+}
@@ -0,0 +1,72 @@
+// 断点的命中次数条件与按草稿的本地持久化
+import type { Breakpoint } from '../types/workflow';
+
+const STORAGE_KEY = 'workflow_breakpoints';
+
+export type HitOperator = '==' | '>=' | '>' | '%';
+
+export interface HitCondition {
+  operator: HitOperator;
+  value: number;
+}
+
+// 只写数字等同于 ">="，与常见调试器一致
+const HIT_CONDITION_PATTERN = /^\s*(==|>=|>|%)?\s*(\d+)\s*$/;
+
+export function parseHitCondition(text: string): HitCondition | null {
+  const match = HIT_CONDITION_PATTERN.exec(text);
+  if (!match) return null;
+  const value = Number(match[2]);
+  const operator = (match[1] || '>=') as HitOperator;
+  // "% 0" 永远不会成立
+  if (operator === '%' && value === 0) return null;
+  return { operator, value };
+}
+
+export function describeHitCondition(text: string): string {
+  const condition = parseHitCondition(text);
+  if (!condition) return text;
+  switch (condition.operator) {
+    case '==':
+      return `第 ${condition.value} 次命中时`;
+    case '>=':
+      return `命中 ${condition.value} 次及以后`;
+    case '>':
+      return `命中超过 ${condition.value} 次后`;
+    case '%':
+      return `每 ${condition.value} 次命中`;
+  }
+}
+
+export function isLogpoint(breakpoint: Pick<Breakpoint, 'logMessage'>): boolean {
+  return !!breakpoint.logMessage?.trim();
+}
+
+// 持久化时不保存会话内的命中次数
+function toStored({ nodeId, condition, hitCondition, logMessage, enabled }: Breakpoint): Breakpoint {
+  return { nodeId, condition, hitCondition, logMessage, enabled };
+}
+
+function readAll(): Record<string, Record<string, Breakpoint>> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function readDraftBreakpoints(designId: string): Record<string, Breakpoint> {
+  return readAll()[designId] || {};
+}
+
+export function saveDraftBreakpoints(designId: string, breakpoints: Record<string, Breakpoint>) {
+  const all = readAll();
+  if (Object.keys(breakpoints).length === 0) {
+    delete all[designId];
+  } else {
+    all[designId] = Object.fromEntries(
+      Object.entries(breakpoints).map(([nodeId, bp]) => [nodeId, toStored(bp)])
+    );
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
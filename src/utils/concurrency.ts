@@ -0,0 +1,36 @@
+// 有限并发执行异步任务
+
+export type SettledResult<R> = { ok: true; value: R } | { ok: false; error: unknown };
+
+// 最多同时运行 limit 个 worker，结果顺序与 items 一致；
+// shouldStop 返回 true 后不再启动新的任务
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  options: {
+    onSettled?: (result: SettledResult<R>, item: T, index: number) => void;
+    shouldStop?: () => boolean;
+  } = {}
+): Promise<SettledResult<R>[]> {
+  const results: SettledResult<R>[] = new Array(items.length);
+  let cursor = 0;
+
+  const run = async () => {
+    while (cursor < items.length && !options.shouldStop?.()) {
+      const index = cursor;
+      cursor += 1;
+      let result: SettledResult<R>;
+      try {
+        result = { ok: true, value: await worker(items[index], index) };
+      } catch (error) {
+        result = { ok: false, error };
+      }
+      results[index] = result;
+      options.onSettled?.(result, items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, run));
+  return results;
+}
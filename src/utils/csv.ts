@@ -0,0 +1,77 @@
+// CSV 读写（RFC 4180：逗号分隔，双引号包裹，"" 转义）
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// 以这些字符开头的文本会被 Excel 等当作公式执行，导出时加 ' 前缀，导入时再去掉
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(cell: CsvCell): string {
+  const raw = cell === null || cell === undefined ? '' : String(cell);
+  const text = typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+// 解析 CSV 文本，自动去掉 BOM 和末尾空行
+export function parseCsv(text: string): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          cell += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every((c) => c.trim() === '')) {
+    rows.pop();
+  }
+  return rows.map((r) => r.map((c) => (c.startsWith("'") && FORMULA_PREFIX.test(c.slice(1)) ? c.slice(1) : c)));
+}
+
+// 触发浏览器下载；加 BOM 以便 Excel 正确识别 UTF-8 中文
+export function downloadCsv(filename: string, rows: CsvCell[][]) {
+  const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
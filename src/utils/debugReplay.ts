@@ -0,0 +1,58 @@
+// 调试会话回放：从执行时间线和 variable_changed 事件重建每一步的变量状态
+import type { ExecutionStep } from '../types/workflow';
+
+export interface ReplayVariableEvent {
+  type: string;
+  seq?: number;
+  timestamp: string;
+  payload: unknown;
+}
+
+export interface ReplayFrame {
+  step: ExecutionStep;
+  // 该步执行完后的变量
+  variables: Record<string, unknown>;
+  // 相比上一步发生变化的变量
+  changedKeys: string[];
+}
+
+const time = (timestamp: string) => new Date(timestamp).getTime() || 0;
+
+function isVariableChange(event: ReplayVariableEvent): event is ReplayVariableEvent & {
+  payload: { key: string; value: unknown };
+} {
+  const payload = event.payload as { key?: unknown } | null;
+  return event.type === 'variable_changed' && typeof payload?.key === 'string';
+}
+
+// 初始变量取第一步的输入；之后依次应用时间不晚于该步的变量事件，节点退出时合并其输出
+export function buildReplayFrames(timeline: ExecutionStep[], events: ReplayVariableEvent[] = []): ReplayFrame[] {
+  const steps = [...timeline].sort((a, b) => a.stepIndex - b.stepIndex);
+  const changes = events
+    .filter(isVariableChange)
+    .sort((a, b) => time(a.timestamp) - time(b.timestamp) || (a.seq ?? 0) - (b.seq ?? 0));
+
+  const frames: ReplayFrame[] = [];
+  let variables: Record<string, unknown> = { ...(steps[0]?.inputData || {}) };
+  let cursor = 0;
+
+  for (const step of steps) {
+    const next = { ...variables };
+    const stepTime = time(step.timestamp);
+    while (cursor < changes.length && time(changes[cursor].timestamp) <= stepTime) {
+      next[changes[cursor].payload.key] = changes[cursor].payload.value;
+      cursor += 1;
+    }
+    if (step.action === 'exit' && step.outputData) {
+      Object.assign(next, step.outputData);
+    }
+
+    const changedKeys = Object.keys(next).filter(
+      (key) => !(key in variables) || JSON.stringify(next[key]) !== JSON.stringify(variables[key])
+    );
+    frames.push({ step, variables: next, changedKeys });
+    variables = next;
+  }
+
+  return frames;
+}
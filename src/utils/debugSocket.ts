@@ -0,0 +1,237 @@
+// 调试事件 WebSocket：断线重连（指数退避）、心跳超时检测、按 seq 检测缺失事件并请求重放
+
+export type DebugConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface SequencedEvent {
+  seq?: number;
+}
+
+// 首次重连等待 1s，每次翻倍，最长 30s
+const BACKOFF_BASE = 1000;
+const BACKOFF_MAX = 30 * 1000;
+// 每 15s 发一次 ping，ping 发出后再等 10s（即连续 25s）没有任何消息视为连接已死
+const HEARTBEAT_INTERVAL = 15 * 1000;
+const HEARTBEAT_TIMEOUT = 10 * 1000;
+// 请求重放后仍未补齐缺口的等待时间
+const REPLAY_TIMEOUT = 5 * 1000;
+
+export function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX, BACKOFF_BASE * 2 ** attempt);
+  // 加 0~20% 抖动，避免代理重启后所有页面同时重连
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+// 按 seq 放行事件：重复的丢弃，超前的暂存，缺口补齐后按顺序放行
+export function createEventSequencer<E extends SequencedEvent>() {
+  let lastSeq = 0;
+  const pending = new Map<number, E>();
+
+  // 放行紧接在 lastSeq 之后的连续事件
+  const drain = () => {
+    const ready: E[] = [];
+    while (pending.has(lastSeq + 1)) {
+      ready.push(pending.get(lastSeq + 1)!);
+      pending.delete(lastSeq + 1);
+      lastSeq += 1;
+    }
+    return ready;
+  };
+
+  return {
+    get lastSeq() {
+      return lastSeq;
+    },
+    get hasGap() {
+      return pending.size > 0;
+    },
+    push(event: E): E[] {
+      // 不带 seq 的事件（旧版后端）直接放行
+      if (event.seq === undefined) return [event];
+      if (event.seq <= lastSeq || pending.has(event.seq)) return [];
+      pending.set(event.seq, event);
+      return drain();
+    },
+    // 放弃缺口（已通过接口重新拉取了完整状态）：暂存的事件按 seq 顺序放行，从其中最大的 seq 继续
+    skipGap(): E[] {
+      const seqs = [...pending.keys()].sort((a, b) => a - b);
+      const skipped = seqs.map((seq) => pending.get(seq)!);
+      if (seqs.length > 0) lastSeq = seqs[seqs.length - 1];
+      pending.clear();
+      return skipped;
+    },
+    // 通过接口拿到的会话状态已包含 seq 及之前的事件，不再等待它们
+    advanceTo(seq: number): E[] {
+      if (seq <= lastSeq) return [];
+      lastSeq = seq;
+      pending.forEach((_, key) => key <= seq && pending.delete(key));
+      return drain();
+    },
+  };
+}
+
+export interface DebugSocketStatus {
+  state: DebugConnectionState;
+  // 已连续重连失败的次数
+  attempt: number;
+  // 下一次重连的时间戳
+  nextRetryAt: number | null;
+}
+
+export interface DebugSocketOptions<E extends SequencedEvent> {
+  // since 为已收到的最大 seq，后端据此重放之后的事件
+  url: (since: number) => string;
+  onEvent: (event: E) => void;
+  onStatus: (status: DebugSocketStatus) => void;
+  // 重连成功或事件缺口无法补齐时，通过接口重新拉取会话状态；返回状态已包含的最大 seq（未知时不返回）
+  onResync: () => Promise<number | undefined>;
+  // 附加到已有会话时，已加载的会话状态包含的最大 seq
+  initialSeq?: number;
+  // 连接断开后是否继续重连（会话已结束时返回 false）
+  shouldReconnect: () => boolean;
+}
+
+export interface DebugSocket {
+  close: () => void;
+  reconnectNow: () => void;
+}
+
+export function createDebugSocket<E extends SequencedEvent & { type: string }>(
+  options: DebugSocketOptions<E>
+): DebugSocket {
+  const sequencer = createEventSequencer<E>();
+  sequencer.advanceTo(options.initialSeq ?? 0);
+  let ws: WebSocket | null = null;
+  let attempt = 0;
+  let closedByUser = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let deadTimer: ReturnType<typeof setTimeout> | null = null;
+  let replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const report = (state: DebugConnectionState, nextRetryAt: number | null = null) =>
+    options.onStatus({ state, attempt, nextRetryAt });
+
+  const clearTimers = () => {
+    [retryTimer, deadTimer, replayTimer].forEach((t) => t && clearTimeout(t));
+    if (pingTimer) clearInterval(pingTimer);
+    retryTimer = pingTimer = deadTimer = replayTimer = null;
+  };
+
+  const send = (message: object) => {
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  // 收到任何消息都说明连接仍然存活；超时后不等关闭握手，直接按断线处理
+  const markAlive = () => {
+    if (deadTimer) clearTimeout(deadTimer);
+    deadTimer = setTimeout(() => {
+      const socket = ws;
+      if (!socket) return;
+      socket.close();
+      handleClosed(socket);
+    }, HEARTBEAT_INTERVAL + HEARTBEAT_TIMEOUT);
+  };
+
+  // 分发放行的事件；仍有缺口时请求重放，缺口补齐后取消等待
+  const release = (events: E[]) => {
+    events.forEach(options.onEvent);
+
+    if (sequencer.hasGap && !replayTimer) {
+      send({ type: 'replay', since: sequencer.lastSeq });
+      replayTimer = setTimeout(() => {
+        replayTimer = null;
+        if (!sequencer.hasGap) return;
+        // 后端没能补齐（如事件缓冲已被清理），放行已暂存的事件后整体刷新
+        release(sequencer.skipGap());
+        resync();
+      }, REPLAY_TIMEOUT);
+    } else if (!sequencer.hasGap && replayTimer) {
+      clearTimeout(replayTimer);
+      replayTimer = null;
+    }
+  };
+
+  function resync() {
+    options
+      .onResync()
+      .then((seq) => {
+        if (seq !== undefined) release(sequencer.advanceTo(seq));
+      })
+      .catch((err) => console.error('Debug session resync failed:', err));
+  }
+
+  const handleMessage = (raw: string) => {
+    markAlive();
+    let event: E;
+    try {
+      event = JSON.parse(raw);
+    } catch (err) {
+      console.error('Failed to parse WebSocket message:', err);
+      return;
+    }
+    if (event.type === 'pong' || event.type === 'heartbeat') return;
+
+    release(sequencer.push(event));
+  };
+
+  const handleClosed = (socket: WebSocket) => {
+    if (ws !== socket) return;
+    ws = null;
+    clearTimers();
+    if (!closedByUser && options.shouldReconnect()) {
+      scheduleReconnect();
+    } else {
+      report('closed');
+    }
+  };
+
+  const scheduleReconnect = () => {
+    const delay = backoffDelay(attempt);
+    attempt += 1;
+    report('reconnecting', Date.now() + delay);
+    retryTimer = setTimeout(open, delay);
+  };
+
+  function open() {
+    retryTimer = null;
+    const isReconnect = attempt > 0;
+    report(isReconnect ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(options.url(sequencer.lastSeq));
+    ws = socket;
+
+    socket.onopen = () => {
+      if (isReconnect) resync();
+      attempt = 0;
+      report('open');
+      markAlive();
+      pingTimer = setInterval(() => send({ type: 'ping' }), HEARTBEAT_INTERVAL);
+    };
+
+    socket.onmessage = (event) => handleMessage(event.data);
+
+    socket.onerror = (error) => {
+      console.error('WebSocket error:', error);
+    };
+
+    socket.onclose = () => handleClosed(socket);
+  }
+
+  open();
+
+  return {
+    close: () => {
+      closedByUser = true;
+      clearTimers();
+      const socket = ws;
+      ws = null;
+      socket?.close();
+      report('closed');
+    },
+    reconnectNow: () => {
+      if (closedByUser || ws) return;
+      clearTimers();
+      open();
+    },
+  };
+}
@@ -0,0 +1,166 @@
+// 决策树统计
+import type { DecisionTree, DecisionTreeStats, DecisionNodeStatus } from '../types/workflow';
+
+// 计算单棵决策树的统计信息
+// completionRate = (已执行 + 模拟执行) / (总节点 - 跳过节点)，取值 0~1
+// totalDurationMs 优先使用 startedAt/completedAt，缺失时累加各节点耗时
+export function computeDecisionTreeStats(tree: DecisionTree): DecisionTreeStats {
+  const counts: Record<DecisionNodeStatus, number> = {
+    pending: 0,
+    executed: 0,
+    current: 0,
+    skipped: 0,
+    failed: 0,
+    simulated: 0,
+  };
+  let nodeDurationMs = 0;
+  for (const node of tree.nodes) {
+    counts[node.status] = (counts[node.status] || 0) + 1;
+    nodeDurationMs += node.duration || 0;
+  }
+
+  const totalNodes = tree.nodes.length;
+  const reachable = totalNodes - counts.skipped;
+  const done = counts.executed + counts.simulated;
+
+  let totalDurationMs = nodeDurationMs;
+  if (tree.startedAt && tree.completedAt) {
+    const span = new Date(tree.completedAt).getTime() - new Date(tree.startedAt).getTime();
+    if (!Number.isNaN(span) && span >= 0) totalDurationMs = span;
+  }
+
+  return {
+    totalNodes,
+    executedNodes: counts.executed,
+    pendingNodes: counts.pending + counts.current,
+    skippedNodes: counts.skipped,
+    failedNodes: counts.failed,
+    simulatedNodes: counts.simulated,
+    totalEdges: tree.edges.length,
+    takenEdges: tree.edges.filter((e) => e.wasTaken).length,
+    completionRate: reachable > 0 ? done / reachable : 0,
+    totalDurationMs,
+  };
+}
+
+// 停留节点统计（案件当前所在或失败的节点）
+export interface StallNodeStat {
+  definitionId: string;
+  nodeId: string;
+  nodeName: string;
+  count: number;
+  failedCount: number;
+}
+
+// 批量统计结果
+export interface AggregatedTreeStats {
+  caseCount: number;
+  completedCount: number;
+  totals: DecisionTreeStats;
+  averageCompletionRate: number;
+  averageDurationMs: number;
+  stallNodes: StallNodeStat[];
+}
+
+// 同一流程的停留节点
+export interface WorkflowStallGroup {
+  definitionId: string;
+  // 停留在该流程中的案件数
+  caseCount: number;
+  nodes: StallNodeStat[];
+}
+
+// 汇总多棵决策树的统计信息，stallNodes 按停留案件数降序
+export function aggregateDecisionTreeStats(trees: DecisionTree[]): AggregatedTreeStats {
+  const totals: DecisionTreeStats = {
+    totalNodes: 0,
+    executedNodes: 0,
+    pendingNodes: 0,
+    skippedNodes: 0,
+    failedNodes: 0,
+    simulatedNodes: 0,
+    totalEdges: 0,
+    takenEdges: 0,
+    completionRate: 0,
+    totalDurationMs: 0,
+  };
+  const stalls = new Map<string, StallNodeStat>();
+  let completionSum = 0;
+  let completedCount = 0;
+
+  // 不同流程中的节点 ID 可能相同，按流程 + 节点区分
+  const addStall = (definitionId: string, nodeId: string, nodeName: string, failed: boolean) => {
+    const key = `${definitionId}:${nodeId}`;
+    const stat = stalls.get(key) || { definitionId, nodeId, nodeName, count: 0, failedCount: 0 };
+    stat.count += 1;
+    if (failed) stat.failedCount += 1;
+    stalls.set(key, stat);
+  };
+
+  for (const tree of trees) {
+    const stats = computeDecisionTreeStats(tree);
+    totals.totalNodes += stats.totalNodes;
+    totals.executedNodes += stats.executedNodes;
+    totals.pendingNodes += stats.pendingNodes;
+    totals.skippedNodes += stats.skippedNodes;
+    totals.failedNodes += stats.failedNodes;
+    totals.simulatedNodes += stats.simulatedNodes;
+    totals.totalEdges += stats.totalEdges;
+    totals.takenEdges += stats.takenEdges;
+    totals.totalDurationMs += stats.totalDurationMs;
+    completionSum += stats.completionRate;
+
+    if (tree.completedAt) {
+      completedCount += 1;
+      continue;
+    }
+
+    // 失败节点优先，其次是当前节点
+    const failed = tree.nodes.find((n) => n.status === 'failed');
+    const current = tree.currentNodeId
+      ? tree.nodes.find((n) => n.id === tree.currentNodeId)
+      : tree.nodes.find((n) => n.status === 'current');
+    const stallNode = failed || current;
+    if (stallNode) {
+      addStall(tree.definitionId, stallNode.id, stallNode.name, stallNode === failed);
+    }
+  }
+
+  const caseCount = trees.length;
+  totals.completionRate = totals.totalNodes - totals.skippedNodes > 0
+    ? (totals.executedNodes + totals.simulatedNodes) / (totals.totalNodes - totals.skippedNodes)
+    : 0;
+
+  return {
+    caseCount,
+    completedCount,
+    totals,
+    averageCompletionRate: caseCount > 0 ? completionSum / caseCount : 0,
+    averageDurationMs: caseCount > 0 ? totals.totalDurationMs / caseCount : 0,
+    stallNodes: [...stalls.values()].sort((a, b) => b.count - a.count),
+  };
+}
+
+// 按流程分组停留节点，停留案件多的流程在前，组内保持按案件数降序
+export function groupStallNodesByDefinition(stallNodes: StallNodeStat[]): WorkflowStallGroup[] {
+  const groups = new Map<string, WorkflowStallGroup>();
+  for (const stat of stallNodes) {
+    const group = groups.get(stat.definitionId) || { definitionId: stat.definitionId, caseCount: 0, nodes: [] };
+    group.caseCount += stat.count;
+    group.nodes.push(stat);
+    groups.set(stat.definitionId, group);
+  }
+  return [...groups.values()].sort((a, b) => b.caseCount - a.caseCount);
+}
+
+// 格式化耗时
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}分${Math.round(seconds % 60)}秒`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}小时${minutes % 60}分`;
+  return `${Math.floor(hours / 24)}天${hours % 24}小时`;
+}
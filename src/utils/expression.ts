@@ -0,0 +1,252 @@
+// 调试监视表达式求值：只支持读取变量和常见运算，不执行任意代码
+// 支持：字面量、变量、a.b / a[0] 访问、! - 一元运算、算术、比较、&& || 和三元运算
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'op'; value: string };
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'ident'; name: string }
+  | { type: 'member'; object: Node; property: Node }
+  | { type: 'unary'; op: string; arg: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; then: Node; otherwise: Node };
+
+// 按长度从长到短匹配，避免 "===" 被拆成 "==" 和 "="
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '.', '[', ']', '(', ')', '?', ':'];
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_$一-龥][\w$一-龥]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ kind: 'ident', value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) j += 1;
+        value += source[j];
+        j += 1;
+      }
+      if (j >= source.length) throw new ExpressionError('字符串缺少结束引号');
+      tokens.push({ kind: 'string', value });
+      i = j + 1;
+      continue;
+    }
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new ExpressionError(`无法识别的字符 "${ch}"`);
+    tokens.push({ kind: 'op', value: op });
+    i += op.length;
+  }
+  return tokens;
+}
+
+// 二元运算符优先级，数值越大越先结合
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '===': 3,
+  '!==': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+};
+
+function parse(tokens: Token[]): Node {
+  let pos = 0;
+
+  const peekOp = (value: string) => {
+    const token = tokens[pos];
+    return token?.kind === 'op' && token.value === value;
+  };
+
+  const expect = (value: string) => {
+    if (!peekOp(value)) throw new ExpressionError(`缺少 "${value}"`);
+    pos += 1;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[pos];
+    if (!token) throw new ExpressionError('表达式不完整');
+    pos += 1;
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'ident':
+        return token.value in LITERALS
+          ? { type: 'literal', value: LITERALS[token.value] }
+          : { type: 'ident', name: token.value };
+      case 'op':
+        if (token.value === '(') {
+          const inner = parseExpression();
+          expect(')');
+          return inner;
+        }
+        throw new ExpressionError(`意外的 "${token.value}"`);
+    }
+  };
+
+  const parsePostfix = (): Node => {
+    let node = parsePrimary();
+    for (;;) {
+      if (peekOp('.')) {
+        pos += 1;
+        const token = tokens[pos];
+        if (token?.kind !== 'ident') throw new ExpressionError('"." 后应为属性名');
+        pos += 1;
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (peekOp('[')) {
+        pos += 1;
+        const property = parseExpression();
+        expect(']');
+        node = { type: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): Node => {
+    if (peekOp('!') || peekOp('-')) {
+      const op = (tokens[pos] as { value: string }).value;
+      pos += 1;
+      return { type: 'unary', op, arg: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parseUnary();
+    for (;;) {
+      const token = tokens[pos];
+      const precedence = token?.kind === 'op' ? PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      pos += 1;
+      const right = parseBinary(precedence + 1);
+      left = { type: 'binary', op: token.value as string, left, right };
+    }
+  };
+
+  function parseExpression(): Node {
+    const test = parseBinary(1);
+    if (!peekOp('?')) return test;
+    pos += 1;
+    const then = parseExpression();
+    expect(':');
+    const otherwise = parseExpression();
+    return { type: 'conditional', test, then, otherwise };
+  }
+
+  const root = parseExpression();
+  if (pos < tokens.length) throw new ExpressionError('表达式末尾有多余内容');
+  return root;
+}
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+// 只读取自身属性和数组/字符串的 length，不暴露原型链
+function readMember(object: unknown, key: unknown): unknown {
+  if (object === null || object === undefined) {
+    throw new ExpressionError(`无法读取 ${object} 的属性 ${String(key)}`);
+  }
+  const name = String(key);
+  if ((Array.isArray(object) || typeof object === 'string') && name === 'length') return object.length;
+  if (typeof object === 'string') return /^\d+$/.test(name) ? object[Number(name)] : undefined;
+  if (typeof object === 'object' && hasOwn(object, name)) return (object as Record<string, unknown>)[name];
+  return undefined;
+}
+
+function evaluateNode(node: Node, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'ident':
+      if (!hasOwn(scope, node.name)) throw new ExpressionError(`变量 ${node.name} 不存在`);
+      return scope[node.name];
+    case 'member':
+      return readMember(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+    case 'unary': {
+      const value = evaluateNode(node.arg, scope);
+      return node.op === '!' ? !value : -(value as number);
+    }
+    case 'conditional':
+      return evaluateNode(node.test, scope) ? evaluateNode(node.then, scope) : evaluateNode(node.otherwise, scope);
+    case 'binary': {
+      // && 和 || 短路，右侧出错时不影响结果
+      if (node.op === '&&') return evaluateNode(node.left, scope) && evaluateNode(node.right, scope);
+      if (node.op === '||') return evaluateNode(node.left, scope) || evaluateNode(node.right, scope);
+      const left = evaluateNode(node.left, scope) as number;
+      const right = evaluateNode(node.right, scope) as number;
+      switch (node.op) {
+        // == 和 != 也按严格相等处理，避免隐式类型转换带来的意外
+        case '==':
+        case '===':
+          return left === right;
+        case '!=':
+        case '!==':
+          return left !== right;
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '%':
+          return left % right;
+      }
+      throw new ExpressionError(`不支持的运算符 ${node.op}`);
+    }
+  }
+}
+
+export function evaluateExpression(source: string, scope: Record<string, unknown>): unknown {
+  if (!source.trim()) throw new ExpressionError('表达式为空');
+  return evaluateNode(parse(tokenize(source)), scope);
+}
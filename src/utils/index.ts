@@ -13,3 +13,10 @@ export function formatDate(date: Date | string): string {
     minute: '2-digit',
   });
 }
+
+// 后端时间戳为秒级时转换为毫秒
+export function formatTimestamp(ts: number): string {
+  if (!ts) return '-';
+  const ms = ts < 1e12 ? ts * 1000 : ts;
+  return new Date(ms).toLocaleString();
+}
@@ -0,0 +1,8 @@
+// 用户角色显示配置
+export const roleLabels: Record<string, { label: string; color: string }> = {
+  super_admin: { label: '超级管理员', color: 'bg-red-100 text-red-700' },
+  grade_admin: { label: '年级管理员', color: 'bg-purple-100 text-purple-700' },
+  admin: { label: '管理员', color: 'bg-blue-100 text-blue-700' },
+  student: { label: '学生', color: 'bg-green-100 text-green-700' },
+  teacher: { label: '教师', color: 'bg-orange-100 text-orange-700' },
+};
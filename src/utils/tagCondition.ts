@@ -0,0 +1,88 @@
+// 标签条件 DSL 工具函数
+import type { TagCondition, TagDataType, TagLogic, TagOperator } from '../types/tag';
+
+export const tagLogicLabels: Record<TagLogic, string> = {
+  AND: '全部满足',
+  OR: '任一满足',
+  NOT: '不满足',
+};
+
+export const tagOperatorLabels: Record<TagOperator, string> = {
+  '==': '等于',
+  '!=': '不等于',
+  contains: '包含',
+  not_contains: '不包含',
+  starts_with: '开头是',
+  ends_with: '结尾是',
+  in: '属于',
+  not_in: '不属于',
+  exists: '已设置',
+  not_exists: '未设置',
+  '>': '大于',
+  '>=': '大于等于',
+  '<': '小于',
+  '<=': '小于等于',
+};
+
+// 各数据类型可用的运算符
+const operatorsByDataType: Record<TagDataType, TagOperator[]> = {
+  string: ['==', '!=', 'contains', 'not_contains', 'starts_with', 'ends_with', 'in', 'not_in', 'exists', 'not_exists'],
+  number: ['==', '!=', '>', '>=', '<', '<=', 'in', 'not_in', 'exists', 'not_exists'],
+  enum: ['==', '!=', 'in', 'not_in', 'exists', 'not_exists'],
+};
+
+export function operatorsForDataType(dataType: TagDataType | undefined): TagOperator[] {
+  return operatorsByDataType[dataType || 'string'];
+}
+
+export const isListOperator = (operator: TagOperator | undefined) => operator === 'in' || operator === 'not_in';
+
+export const isUnaryOperator = (operator: TagOperator | undefined) =>
+  operator === 'exists' || operator === 'not_exists';
+
+export const isGroupCondition = (condition: TagCondition) => !condition.tag && !!condition.logic;
+
+export function createRule(tag = ''): TagCondition {
+  return { tag, operator: '==', value: '' };
+}
+
+export function createGroup(logic: TagLogic = 'AND'): TagCondition {
+  return { logic, conditions: [] };
+}
+
+// 切换运算符时转换已有的值，保证值的形态与运算符匹配
+export function coerceValueForOperator(
+  value: TagCondition['value'],
+  operator: TagOperator,
+  dataType: TagDataType | undefined
+): TagCondition['value'] {
+  if (isUnaryOperator(operator)) return undefined;
+  if (isListOperator(operator)) {
+    if (Array.isArray(value)) return value;
+    return value === undefined || value === '' ? [] : [String(value)];
+  }
+  const scalar = Array.isArray(value) ? value[0] ?? '' : value ?? '';
+  if (dataType === 'number' && scalar !== '' && !Number.isNaN(Number(scalar))) {
+    return Number(scalar);
+  }
+  return scalar;
+}
+
+// 条件中所有规则都已填写完整
+export function isCompleteCondition(condition: TagCondition): boolean {
+  if (!isGroupCondition(condition)) {
+    if (!condition.tag || !condition.operator) return false;
+    if (isUnaryOperator(condition.operator)) return true;
+    if (isListOperator(condition.operator)) return Array.isArray(condition.value) && condition.value.length > 0;
+    return condition.value !== undefined && condition.value !== '';
+  }
+  const children = condition.conditions || [];
+  return children.length > 0 && children.every(isCompleteCondition);
+}
+
+// 条件中引用的所有标签名
+export function collectConditionTags(condition: TagCondition, into = new Set<string>()): Set<string> {
+  if (condition.tag) into.add(condition.tag);
+  (condition.conditions || []).forEach((c) => collectConditionTags(c, into));
+  return into;
+}
@@ -0,0 +1,89 @@
+// 用户标签 CSV 导入导出
+import type {
+  TagDefinition,
+  TagImportChange,
+  UserKeyColumn,
+} from '../types/tag';
+import type { SSOUser } from '../types/user';
+import type { CsvCell } from './csv';
+
+// 导出时固定的用户信息列
+export const USER_PROFILE_COLUMNS: (keyof SSOUser)[] = [
+  'id',
+  'username',
+  'student_id',
+  'display_name',
+  'role',
+  'department',
+  'grade',
+  'class_name',
+];
+
+const USER_KEY_COLUMNS: UserKeyColumn[] = ['id', 'student_id', 'username'];
+
+export function buildUserTagsCsv(
+  users: { user: SSOUser; tags: Record<string, string> }[],
+  definitions: TagDefinition[]
+): CsvCell[][] {
+  const tagNames = definitions.map((d) => d.name);
+  const header: CsvCell[] = [...USER_PROFILE_COLUMNS, ...tagNames];
+  const rows = users.map(({ user, tags }) => [
+    ...USER_PROFILE_COLUMNS.map((key) => user[key] as CsvCell),
+    ...tagNames.map((name) => tags[name] ?? ''),
+  ]);
+  return [header, ...rows];
+}
+
+// 按优先级找到定位用户的列：id > student_id > username
+export function findUserKeyColumn(header: string[]): { index: number; key: UserKeyColumn } | null {
+  const normalized = header.map((h) => h.trim().toLowerCase());
+  for (const key of USER_KEY_COLUMNS) {
+    const index = normalized.indexOf(key);
+    if (index >= 0) return { index, key };
+  }
+  return null;
+}
+
+// 表头按标签名或显示名匹配标签定义；用户信息列不映射
+export function guessColumnMapping(header: string[], definitions: TagDefinition[]): (string | null)[] {
+  const profile = new Set<string>(USER_PROFILE_COLUMNS);
+  return header.map((raw) => {
+    const h = raw.trim();
+    if (profile.has(h.toLowerCase())) return null;
+    const def = definitions.find((d) => d.name === h || d.display_name === h);
+    return def ? def.name : null;
+  });
+}
+
+// 按标签定义校验单元格的值，返回错误信息
+export function validateTagValue(def: TagDefinition, value: string): string | null {
+  if (def.data_type === 'number' && !Number.isFinite(Number(value))) {
+    return `「${def.display_name}」必须是数字`;
+  }
+  if (def.data_type === 'enum' && def.enum_values && !def.enum_values.includes(value)) {
+    return `「${def.display_name}」只能是 ${def.enum_values.join(' / ')}`;
+  }
+  return null;
+}
+
+// 比较现有标签和导入的值；导入值为空时，clearEmpty 为 true 则视为移除，否则保持不变
+export function diffUserTags(
+  current: Record<string, string>,
+  incoming: Record<string, string>,
+  clearEmpty: boolean
+): TagImportChange[] {
+  const changes: TagImportChange[] = [];
+  Object.entries(incoming).forEach(([tagName, newValue]) => {
+    const oldValue = current[tagName];
+    if (newValue === '') {
+      if (clearEmpty && oldValue !== undefined) changes.push({ tagName, type: 'removed', oldValue });
+      return;
+    }
+    if (oldValue === undefined) {
+      changes.push({ tagName, type: 'added', newValue });
+    } else if (oldValue !== newValue) {
+      changes.push({ tagName, type: 'changed', oldValue, newValue });
+    }
+  });
+  return changes;
+}
@@ -0,0 +1,130 @@
+// 标签条件本地求值：后端不可用时预览匹配结果，或核对 /users/by-tags 的返回
+//
+// 语义约定：
+// - AND / OR 对子条件求与 / 或，空 AND 为真、空 OR 为假；NOT 对所有子条件的 AND 取反
+// - 用户没有该标签时，只有否定类运算符（!=、not_contains、not_in、not_exists）成立
+// - number 类型标签的 ==、!=、>、>=、<、<=、in、not_in 按数值比较，其余类型按字符串比较
+import type { TagCondition, TagDataType, TagDefinition, TagOperator, UserWithTags } from '../types/tag';
+import { isGroupCondition } from './tagCondition';
+
+type DataTypeLookup = (tag: string) => TagDataType | undefined;
+
+const NEGATIVE_OPERATORS: TagOperator[] = ['!=', 'not_contains', 'not_in', 'not_exists'];
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function compare(actual: string, expected: unknown, numeric: boolean): number | null {
+  if (numeric) {
+    const a = toNumber(actual);
+    const b = toNumber(expected);
+    if (a === null || b === null) return null;
+    return a - b;
+  }
+  const b = String(expected ?? '');
+  return actual === b ? 0 : actual < b ? -1 : 1;
+}
+
+function evaluateRule(rule: TagCondition, tags: Record<string, string>, dataTypeOf: DataTypeLookup): boolean {
+  const operator = rule.operator || '==';
+  const tag = rule.tag!;
+  const present = Object.prototype.hasOwnProperty.call(tags, tag);
+  if (!present) return NEGATIVE_OPERATORS.includes(operator);
+
+  const actual = tags[tag];
+  const numeric = dataTypeOf(tag) === 'number';
+  const expected = rule.value;
+  const list = Array.isArray(expected) ? expected : expected === undefined ? [] : [expected];
+  const inList = () => list.some((item) => compare(actual, item, numeric) === 0);
+  const scalar = Array.isArray(expected) ? expected[0] : expected;
+
+  switch (operator) {
+    case 'exists':
+      return true;
+    case 'not_exists':
+      return false;
+    case '==':
+      return compare(actual, scalar, numeric) === 0;
+    case '!=':
+      return compare(actual, scalar, numeric) !== 0;
+    case 'contains':
+      return actual.includes(String(scalar ?? ''));
+    case 'not_contains':
+      return !actual.includes(String(scalar ?? ''));
+    case 'starts_with':
+      return actual.startsWith(String(scalar ?? ''));
+    case 'ends_with':
+      return actual.endsWith(String(scalar ?? ''));
+    case 'in':
+      return inList();
+    case 'not_in':
+      return !inList();
+    case '>':
+    case '>=':
+    case '<':
+    case '<=': {
+      const diff = compare(actual, scalar, numeric);
+      if (diff === null) return false;
+      if (operator === '>') return diff > 0;
+      if (operator === '>=') return diff >= 0;
+      if (operator === '<') return diff < 0;
+      return diff <= 0;
+    }
+    default:
+      return false;
+  }
+}
+
+function evaluate(condition: TagCondition, tags: Record<string, string>, dataTypeOf: DataTypeLookup): boolean {
+  if (!isGroupCondition(condition)) {
+    return condition.tag ? evaluateRule(condition, tags, dataTypeOf) : true;
+  }
+  const children = condition.conditions || [];
+  switch (condition.logic) {
+    case 'OR':
+      return children.some((c) => evaluate(c, tags, dataTypeOf));
+    case 'NOT':
+      return !children.every((c) => evaluate(c, tags, dataTypeOf));
+    case 'AND':
+    default:
+      return children.every((c) => evaluate(c, tags, dataTypeOf));
+  }
+}
+
+function dataTypeLookup(definitions: TagDefinition[]): DataTypeLookup {
+  const map = new Map(definitions.map((d) => [d.name, d.data_type]));
+  return (tag) => map.get(tag);
+}
+
+// 判断用户是否满足条件；传入标签定义后 number 类型标签按数值比较
+export function evaluateTagCondition(
+  condition: TagCondition,
+  user: UserWithTags,
+  definitions: TagDefinition[] = []
+): boolean {
+  return evaluate(condition, user.tags || {}, dataTypeLookup(definitions));
+}
+
+// 在已加载的用户中筛选满足条件的用户
+export function filterUsersByTagCondition(
+  users: UserWithTags[],
+  condition: TagCondition,
+  definitions: TagDefinition[] = []
+): UserWithTags[] {
+  const dataTypeOf = dataTypeLookup(definitions);
+  return users.filter((u) => evaluate(condition, u.tags || {}, dataTypeOf));
+}
+
+// 后端返回的匹配用户中，本地求值不满足条件的用户
+export function findTagConditionMismatches(
+  condition: TagCondition,
+  backendMatches: UserWithTags[],
+  definitions: TagDefinition[] = []
+): UserWithTags[] {
+  const dataTypeOf = dataTypeLookup(definitions);
+  return backendMatches.filter((u) => !evaluate(condition, u.tags || {}, dataTypeOf));
+}
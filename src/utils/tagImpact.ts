@@ -0,0 +1,72 @@
+// 标签定义变更影响分析：枚举值差异、工作流设计中对标签的引用
+import type { TagCondition, TagReference } from '../types/tag';
+import type { WorkflowDesign } from '../api/client';
+
+export function diffEnumValues(oldValues: string[] = [], newValues: string[] = []) {
+  return {
+    removed: oldValues.filter((v) => !newValues.includes(v)),
+    added: newValues.filter((v) => !oldValues.includes(v)),
+  };
+}
+
+function isTagCondition(value: unknown): value is TagCondition {
+  if (typeof value !== 'object' || value === null) return false;
+  const c = value as TagCondition;
+  return (typeof c.tag === 'string' && typeof c.operator === 'string') || Array.isArray(c.conditions);
+}
+
+// 条件树中引用 tagName 的规则所比较的值
+function collectReferencedValues(condition: TagCondition, tagName: string, into: string[]): boolean {
+  let found = false;
+  if (condition.tag === tagName) {
+    found = true;
+    const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+    values.filter((v) => v !== undefined).forEach((v) => into.push(String(v)));
+  }
+  (condition.conditions || []).forEach((c) => {
+    if (collectReferencedValues(c, tagName, into)) found = true;
+  });
+  return found;
+}
+
+// 递归查找属性中的标签条件
+function scanValue(value: unknown, tagName: string, path: string, onFound: (path: string, values: string[]) => void) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => scanValue(item, tagName, `${path}[${i}]`, onFound));
+    return;
+  }
+  if (typeof value !== 'object' || value === null) return;
+  if (isTagCondition(value)) {
+    const values: string[] = [];
+    if (collectReferencedValues(value, tagName, values)) onFound(path, values);
+    return;
+  }
+  Object.entries(value).forEach(([key, child]) => scanValue(child, tagName, path ? `${path}.${key}` : key, onFound));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 查找设计中引用指定标签的节点属性和连线条件
+export function findTagReferencesInDesign(
+  design: Pick<WorkflowDesign, 'nodes' | 'edges'>,
+  tagName: string
+): TagReference[] {
+  const references: TagReference[] = [];
+
+  design.nodes.forEach((node) => {
+    scanValue(node.properties, tagName, '', (path, values) =>
+      references.push({ nodeId: node.id, location: `${node.name || node.id} · ${path}`, values })
+    );
+  });
+
+  // 连线条件是表达式文本，只能按标识符匹配
+  const pattern = new RegExp(`(^|[^\\w.])${escapeRegExp(tagName)}(?![\\w])`);
+  design.edges.forEach((edge) => {
+    const expression = edge.condition?.expression;
+    if (expression && pattern.test(expression)) {
+      references.push({ edgeId: edge.id, location: `连线 ${edge.label || edge.id} · ${expression}`, values: [] });
+    }
+  });
+
+  return references;
+}
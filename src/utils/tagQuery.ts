@@ -0,0 +1,308 @@
+// 标签条件文本查询语言
+//
+// 语法示例：grade == "2024" AND (department in ["CS", "EE"] OR NOT exists(class_name))
+//
+//   expr    := and ('OR' and)*
+//   and     := unary ('AND' unary)*
+//   unary   := 'NOT' unary | primary
+//   primary := '(' expr ')' | ('exists' | 'not_exists') '(' IDENT ')' | IDENT OP value
+//   value   := STRING | NUMBER | '[' (STRING | NUMBER) (',' (STRING | NUMBER))* ']'
+//
+// AND / OR / NOT 不区分大小写；字符串使用双引号，支持 \" 和 \\ 转义。
+import type { TagCondition, TagOperator } from '../types/tag';
+import { isGroupCondition, isListOperator, isUnaryOperator } from './tagCondition';
+
+export class TagQuerySyntaxError extends Error {
+  // 出错位置（从 0 开始的字符偏移）
+  readonly position: number;
+  readonly length: number;
+
+  constructor(message: string, position: number, length = 1) {
+    super(message);
+    this.name = 'TagQuerySyntaxError';
+    this.position = position;
+    this.length = Math.max(length, 1);
+  }
+}
+
+type TokenType = 'ident' | 'string' | 'number' | 'operator' | 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: string | number;
+  start: number;
+  end: number;
+}
+
+const SYMBOL_OPERATORS = ['==', '!=', '>=', '<=', '>', '<'];
+
+const WORD_OPERATORS: TagOperator[] = ['contains', 'not_contains', 'starts_with', 'ends_with', 'in', 'not_in'];
+
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+
+const PUNCTUATION: Record<string, TokenType> = {
+  '(': 'lparen',
+  ')': 'rparen',
+  '[': 'lbracket',
+  ']': 'rbracket',
+  ',': 'comma',
+};
+
+const describeToken = (token: Token) => (token.type === 'eof' ? '输入结尾' : `「${token.text}」`);
+
+export function tokenizeTagQuery(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (/\s/.test(ch)) {
+      pos += 1;
+      continue;
+    }
+
+    if (PUNCTUATION[ch]) {
+      tokens.push({ type: PUNCTUATION[ch], text: ch, start: pos, end: pos + 1 });
+      pos += 1;
+      continue;
+    }
+
+    const symbol = SYMBOL_OPERATORS.find((op) => source.startsWith(op, pos));
+    if (symbol) {
+      tokens.push({ type: 'operator', text: symbol, value: symbol, start: pos, end: pos + symbol.length });
+      pos += symbol.length;
+      continue;
+    }
+
+    if (ch === '"') {
+      const start = pos;
+      let value = '';
+      pos += 1;
+      while (pos < source.length && source[pos] !== '"') {
+        if (source[pos] === '\\') {
+          const next = source[pos + 1];
+          if (next !== '"' && next !== '\\') {
+            throw new TagQuerySyntaxError('无效的转义字符，只支持 \\" 和 \\\\', pos, 2);
+          }
+          value += next;
+          pos += 2;
+        } else {
+          value += source[pos];
+          pos += 1;
+        }
+      }
+      if (pos >= source.length) {
+        throw new TagQuerySyntaxError('字符串缺少结束引号', start, source.length - start);
+      }
+      pos += 1;
+      tokens.push({ type: 'string', text: source.slice(start, pos), value, start, end: pos });
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(source.slice(pos));
+    if (numberMatch) {
+      const text = numberMatch[0];
+      tokens.push({ type: 'number', text, value: Number(text), start: pos, end: pos + text.length });
+      pos += text.length;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_][\w.]*/.exec(source.slice(pos));
+    if (identMatch) {
+      const text = identMatch[0];
+      tokens.push({ type: 'ident', text, start: pos, end: pos + text.length });
+      pos += text.length;
+      continue;
+    }
+
+    throw new TagQuerySyntaxError(`无法识别的字符「${ch}」`, pos);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): TagCondition {
+    if (this.peek().type === 'eof') {
+      throw new TagQuerySyntaxError('查询为空', 0);
+    }
+    const condition = this.parseOr();
+    const rest = this.peek();
+    if (rest.type !== 'eof') {
+      throw this.unexpected(rest, '期望 AND、OR 或输入结尾');
+    }
+    return condition;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index += 1;
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string) {
+    return token.type === 'ident' && token.text.toUpperCase() === keyword;
+  }
+
+  private expect(type: TokenType, expectation: string): Token {
+    const token = this.peek();
+    if (token.type !== type) throw this.unexpected(token, expectation);
+    return this.next();
+  }
+
+  private unexpected(token: Token, expectation: string) {
+    return new TagQuerySyntaxError(`${expectation}，但遇到${describeToken(token)}`, token.start, token.end - token.start);
+  }
+
+  private parseOr(): TagCondition {
+    const operands = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), 'OR')) {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { logic: 'OR', conditions: operands };
+  }
+
+  private parseAnd(): TagCondition {
+    const operands = [this.parseUnary()];
+    while (this.isKeyword(this.peek(), 'AND')) {
+      this.next();
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { logic: 'AND', conditions: operands };
+  }
+
+  private parseUnary(): TagCondition {
+    if (this.isKeyword(this.peek(), 'NOT')) {
+      this.next();
+      return { logic: 'NOT', conditions: [this.parseUnary()] };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TagCondition {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.next();
+      const inner = this.parseOr();
+      this.expect('rparen', '期望「)」');
+      return inner;
+    }
+
+    if (token.type !== 'ident' || KEYWORDS.includes(token.text.toUpperCase())) {
+      throw this.unexpected(token, '期望标签名、NOT 或「(」');
+    }
+    this.next();
+
+    if ((token.text === 'exists' || token.text === 'not_exists') && this.peek().type === 'lparen') {
+      this.next();
+      const tag = this.expect('ident', '期望标签名');
+      this.expect('rparen', '期望「)」');
+      return { tag: tag.text, operator: token.text };
+    }
+
+    const opToken = this.peek();
+    let operator: TagOperator;
+    if (opToken.type === 'operator') {
+      operator = opToken.text as TagOperator;
+    } else if (opToken.type === 'ident' && (WORD_OPERATORS as string[]).includes(opToken.text)) {
+      operator = opToken.text as TagOperator;
+    } else {
+      throw this.unexpected(opToken, `期望标签「${token.text}」后面跟运算符`);
+    }
+    this.next();
+
+    return { tag: token.text, operator, value: this.parseValue(operator) };
+  }
+
+  private parseScalar(): string | number {
+    const token = this.peek();
+    if (token.type !== 'string' && token.type !== 'number') {
+      throw this.unexpected(token, '期望字符串或数字');
+    }
+    this.next();
+    return token.value!;
+  }
+
+  private parseValue(operator: TagOperator): TagCondition['value'] {
+    if (!isListOperator(operator)) {
+      if (this.peek().type === 'lbracket') {
+        throw this.unexpected(this.peek(), `运算符 ${operator} 只接受单个值`);
+      }
+      return this.parseScalar();
+    }
+
+    this.expect('lbracket', `运算符 ${operator} 期望「[」开始的列表`);
+    const items: string[] = [];
+    if (this.peek().type !== 'rbracket') {
+      items.push(String(this.parseScalar()));
+      while (this.peek().type === 'comma') {
+        this.next();
+        items.push(String(this.parseScalar()));
+      }
+    }
+    this.expect('rbracket', '期望「,」或「]」');
+    return items;
+  }
+}
+
+// 解析查询文本，语法错误抛出 TagQuerySyntaxError
+export function parseTagQuery(source: string): TagCondition {
+  return new Parser(tokenizeTagQuery(source)).parse();
+}
+
+// ========== 打印 ==========
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+function printValue(value: TagCondition['value']): string {
+  if (Array.isArray(value)) return `[${value.map((v) => quote(String(v))).join(', ')}]`;
+  if (typeof value === 'number') return String(value);
+  return quote(value ?? '');
+}
+
+function printRule(rule: TagCondition): string {
+  const operator = rule.operator || '==';
+  if (isUnaryOperator(operator)) return `${operator}(${rule.tag})`;
+  return `${rule.tag} ${operator} ${printValue(rule.value)}`;
+}
+
+// 去掉空的条件组
+function prune(condition: TagCondition): TagCondition | null {
+  if (!isGroupCondition(condition)) return condition.tag ? condition : null;
+  const children = (condition.conditions || []).map(prune).filter((c): c is TagCondition => c !== null);
+  return children.length === 0 ? null : { logic: condition.logic, conditions: children };
+}
+
+function printNode(condition: TagCondition, nested: boolean): string {
+  if (!isGroupCondition(condition)) return printRule(condition);
+
+  const children = condition.conditions || [];
+  if (condition.logic === 'NOT') {
+    // NOT 对多个子条件按 AND 处理
+    const operand = children.length === 1 ? children[0] : { logic: 'AND' as const, conditions: children };
+    return `NOT ${printNode(operand, true)}`;
+  }
+  if (children.length === 1) return printNode(children[0], nested);
+
+  const text = children.map((c) => printNode(c, true)).join(` ${condition.logic} `);
+  return nested ? `(${text})` : text;
+}
+
+// 把条件树打印成查询文本，parseTagQuery(printTagQuery(c)) 与 c 等价
+export function printTagQuery(condition: TagCondition | undefined): string {
+  const pruned = condition ? prune(condition) : null;
+  return pruned ? printNode(pruned, false) : '';
+}
@@ -0,0 +1,113 @@
+// 调试变量查看器：按路径读写嵌套值、比较步骤前后的变化、按设计中的变量定义校验输入
+import type { Variable } from '../types/workflow';
+
+export type VariablePath = (string | number)[];
+
+export type ValueType = Variable['type'] | 'null';
+
+export function valueType(value: unknown): ValueType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') return 'object';
+  if (typeof value === 'number' || typeof value === 'boolean') return typeof value as ValueType;
+  return 'string';
+}
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null;
+
+// 显示为 order.items[0].price
+export function formatPath(path: VariablePath): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+// 返回替换了 path 处的值的新对象，不修改原值
+export function setAtPath(root: unknown, path: VariablePath, value: unknown): unknown {
+  if (path.length === 0) return value;
+  const [head, ...rest] = path;
+  if (Array.isArray(root)) {
+    const copy = [...root];
+    copy[head as number] = setAtPath(root[head as number], rest, value);
+    return copy;
+  }
+  const object = isContainer(root) ? (root as Record<string, unknown>) : {};
+  return { ...object, [head]: setAtPath(object[head as string], rest, value) };
+}
+
+// 找出前后发生变化的路径；子项变化时其所有上级路径也算变化，方便折叠时仍能看到
+export function diffVariablePaths(before: unknown, after: unknown, path: VariablePath = []): Set<string> {
+  const changed = new Set<string>();
+  const walk = (a: unknown, b: unknown, current: VariablePath): boolean => {
+    let differs: boolean;
+    if (isContainer(a) && isContainer(b) && Array.isArray(a) === Array.isArray(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      differs = false;
+      keys.forEach((key) => {
+        const segment = Array.isArray(a) ? Number(key) : key;
+        const childA = (a as Record<string, unknown>)[key];
+        const childB = (b as Record<string, unknown>)[key];
+        if (walk(childA, childB, [...current, segment])) differs = true;
+      });
+    } else {
+      differs = JSON.stringify(a) !== JSON.stringify(b);
+    }
+    if (differs && current.length > 0) changed.add(formatPath(current));
+    return differs;
+  };
+  walk(before, after, path);
+  return changed;
+}
+
+export type ParseResult = { ok: true; value: unknown } | { ok: false; error: string };
+
+// 把输入框中的文本按目标类型解析
+export function parseVariableInput(raw: string, type: ValueType, required = false): ParseResult {
+  const text = raw.trim();
+  if (required && text === '') return { ok: false, error: '该变量为必填' };
+  switch (type) {
+    case 'string':
+      return { ok: true, value: raw };
+    case 'number': {
+      const value = Number(text);
+      if (text === '' || !Number.isFinite(value)) return { ok: false, error: '应为数字' };
+      return { ok: true, value };
+    }
+    case 'boolean':
+      if (text !== 'true' && text !== 'false') return { ok: false, error: '应为 true 或 false' };
+      return { ok: true, value: text === 'true' };
+    case 'object':
+    case 'array':
+    case 'null': {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        return { ok: false, error: '不是合法的 JSON' };
+      }
+      if (type === 'object' && valueType(value) !== 'object') return { ok: false, error: '应为 JSON 对象' };
+      if (type === 'array' && !Array.isArray(value)) return { ok: false, error: '应为 JSON 数组' };
+      if (required && value === null) return { ok: false, error: '该变量为必填' };
+      return { ok: true, value };
+    }
+  }
+}
+
+// 编辑框的初始文本
+export function formatVariableInput(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  return isContainer(value) ? JSON.stringify(value, null, 2) : JSON.stringify(value);
+}
+
+// 设计中的变量定义以名称为键，旧数据里键可能与 name 不一致
+export function findVariableDefinition(
+  definitions: Record<string, Variable> | undefined,
+  name: string
+): Variable | undefined {
+  if (!definitions) return undefined;
+  return definitions[name] || Object.values(definitions).find((v) => v.name === name);
+}
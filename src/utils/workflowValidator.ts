@@ -0,0 +1,253 @@
+// 工作流设计本地结构校验（不依赖后端 /validate）
+import type {
+  WorkflowDesign,
+  DesignerNode,
+  DesignerEdge,
+  NodeTemplate,
+  ValidationError,
+  ValidationWarn,
+  ValidationResult,
+} from '../types/workflow';
+
+type DesignGraph = Pick<WorkflowDesign, 'nodes' | 'edges'>;
+
+interface Graph {
+  nodeMap: Map<string, DesignerNode>;
+  outgoing: Map<string, DesignerEdge[]>;
+  incoming: Map<string, DesignerEdge[]>;
+}
+
+function buildGraph(design: DesignGraph): Graph {
+  const nodeMap = new Map(design.nodes.map((n) => [n.id, n]));
+  const outgoing = new Map<string, DesignerEdge[]>();
+  const incoming = new Map<string, DesignerEdge[]>();
+  design.nodes.forEach((n) => {
+    outgoing.set(n.id, []);
+    incoming.set(n.id, []);
+  });
+  design.edges.forEach((e) => {
+    if (!nodeMap.has(e.source) || !nodeMap.has(e.target)) return;
+    outgoing.get(e.source)!.push(e);
+    incoming.get(e.target)!.push(e);
+  });
+  return { nodeMap, outgoing, incoming };
+}
+
+// 从给定节点出发可达的节点集合
+function reachableFrom(graph: Graph, startIds: string[], direction: 'forward' | 'backward' = 'forward'): Set<string> {
+  const visited = new Set<string>();
+  const stack = [...startIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    const edges = direction === 'forward' ? graph.outgoing.get(id) : graph.incoming.get(id);
+    for (const edge of edges || []) {
+      stack.push(direction === 'forward' ? edge.target : edge.source);
+    }
+  }
+  return visited;
+}
+
+// Tarjan 强连通分量
+function stronglyConnectedComponents(graph: Graph): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const result: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowlink.set(id, index);
+    index += 1;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const edge of graph.outgoing.get(id) || []) {
+      if (!indices.has(edge.target)) {
+        visit(edge.target);
+        lowlink.set(id, Math.min(lowlink.get(id)!, lowlink.get(edge.target)!));
+      } else if (onStack.has(edge.target)) {
+        lowlink.set(id, Math.min(lowlink.get(id)!, indices.get(edge.target)!));
+      }
+    }
+
+    if (lowlink.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      result.push(component);
+    }
+  };
+
+  graph.nodeMap.forEach((_, id) => {
+    if (!indices.has(id)) visit(id);
+  });
+  return result;
+}
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const nodeLabel = (node: DesignerNode) => node.name || node.id;
+
+// 校验工作流设计，返回与后端 /validate 相同结构的结果
+export function validateWorkflowDesign(design: DesignGraph, templates: NodeTemplate[] = []): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarn[] = [];
+  const graph = buildGraph(design);
+
+  // 连线两端必须存在
+  design.edges.forEach((edge) => {
+    if (!graph.nodeMap.has(edge.source) || !graph.nodeMap.has(edge.target)) {
+      errors.push({ code: 'INVALID_EDGE', message: '连线引用了不存在的节点', edgeId: edge.id });
+    }
+  });
+
+  // 开始节点
+  const starts = design.nodes.filter((n) => n.type === 'start');
+  if (starts.length === 0) {
+    errors.push({ code: 'NO_START_NODE', message: '流程缺少开始节点' });
+  } else if (starts.length > 1) {
+    starts.slice(1).forEach((n) =>
+      errors.push({ code: 'MULTIPLE_START_NODES', message: '流程只能有一个开始节点', nodeId: n.id })
+    );
+  }
+  starts.forEach((n) => {
+    if (graph.incoming.get(n.id)!.length > 0) {
+      errors.push({ code: 'START_HAS_INCOMING', message: '开始节点不能有输入连线', nodeId: n.id });
+    }
+  });
+
+  // 结束节点
+  const ends = design.nodes.filter((n) => n.type === 'end');
+  if (ends.length === 0) {
+    errors.push({ code: 'NO_END_NODE', message: '流程缺少结束节点' });
+  }
+  ends.forEach((n) => {
+    if (graph.outgoing.get(n.id)!.length > 0) {
+      errors.push({ code: 'END_HAS_OUTGOING', message: '结束节点不能有输出连线', nodeId: n.id });
+    }
+  });
+
+  // 可达性
+  const reachable = starts.length > 0 ? reachableFrom(graph, [starts[0].id]) : new Set<string>();
+  if (starts.length > 0 && ends.length > 0 && !ends.some((n) => reachable.has(n.id))) {
+    errors.push({ code: 'END_UNREACHABLE', message: '从开始节点无法到达任何结束节点', nodeId: starts[0].id });
+  }
+
+  design.nodes.forEach((node) => {
+    const inCount = graph.incoming.get(node.id)!.length;
+    const outCount = graph.outgoing.get(node.id)!.length;
+    if (inCount === 0 && outCount === 0 && design.nodes.length > 1) {
+      errors.push({ code: 'ORPHAN_NODE', message: `节点「${nodeLabel(node)}」没有任何连线`, nodeId: node.id });
+      return;
+    }
+    if (starts.length > 0 && !reachable.has(node.id)) {
+      warnings.push({ code: 'UNREACHABLE_NODE', message: `节点「${nodeLabel(node)}」从开始节点不可达`, nodeId: node.id });
+    }
+    if (node.type !== 'end' && outCount === 0 && inCount > 0) {
+      errors.push({ code: 'DEAD_END', message: `节点「${nodeLabel(node)}」没有输出连线`, nodeId: node.id });
+    }
+  });
+
+  // 排他网关：至少两条输出，且每条都有条件
+  design.nodes
+    .filter((n) => n.type === 'exclusive_gateway')
+    .forEach((node) => {
+      const out = graph.outgoing.get(node.id)!;
+      if (out.length < 2) {
+        errors.push({
+          code: 'GATEWAY_INSUFFICIENT_BRANCHES',
+          message: `排他网关「${nodeLabel(node)}」至少需要两条输出连线`,
+          nodeId: node.id,
+        });
+      }
+      out.forEach((edge) => {
+        if (isEmptyValue(edge.condition?.expression)) {
+          errors.push({
+            code: 'MISSING_CONDITION',
+            message: `排他网关「${nodeLabel(node)}」的输出连线缺少条件`,
+            nodeId: node.id,
+            edgeId: edge.id,
+            field: 'condition',
+          });
+        }
+      });
+    });
+
+  // 并行网关：每个分叉的所有分支必须在同一个汇合网关处汇合
+  const parallels = design.nodes.filter((n) => n.type === 'parallel_gateway');
+  const joins = new Set(parallels.filter((n) => graph.incoming.get(n.id)!.length > 1).map((n) => n.id));
+  parallels
+    .filter((n) => graph.outgoing.get(n.id)!.length > 1)
+    .forEach((split) => {
+      const branchJoins = graph.outgoing.get(split.id)!.map((edge) => {
+        const downstream = reachableFrom(graph, [edge.target]);
+        return new Set([...downstream].filter((id) => joins.has(id) && id !== split.id));
+      });
+      const common = [...branchJoins[0]].filter((id) => branchJoins.every((set) => set.has(id)));
+      if (common.length === 0) {
+        errors.push({
+          code: 'UNBALANCED_PARALLEL',
+          message: `并行网关「${nodeLabel(split)}」的分支没有汇合到同一个并行网关`,
+          nodeId: split.id,
+        });
+      }
+    });
+  joins.forEach((joinId) => {
+    const upstream = reachableFrom(graph, [joinId], 'backward');
+    const hasSplit = parallels.some(
+      (n) => n.id !== joinId && upstream.has(n.id) && graph.outgoing.get(n.id)!.length > 1
+    );
+    if (!hasSplit) {
+      errors.push({
+        code: 'UNBALANCED_PARALLEL',
+        message: `并行网关「${nodeLabel(graph.nodeMap.get(joinId)!)}」汇合的分支没有对应的并行分叉`,
+        nodeId: joinId,
+      });
+    }
+  });
+
+  // 循环必须至少有一条出口
+  stronglyConnectedComponents(graph).forEach((component) => {
+    const members = new Set(component);
+    const isCycle =
+      component.length > 1 || (graph.outgoing.get(component[0]) || []).some((e) => e.target === component[0]);
+    if (!isCycle) return;
+    const hasExit = component.some((id) => graph.outgoing.get(id)!.some((e) => !members.has(e.target)));
+    if (!hasExit) {
+      component.forEach((id) =>
+        errors.push({ code: 'INFINITE_LOOP', message: `节点「${nodeLabel(graph.nodeMap.get(id)!)}」处于没有出口的循环中`, nodeId: id })
+      );
+    }
+  });
+
+  // 模板必填配置
+  const templateMap = new Map(templates.map((t) => [t.type, t]));
+  design.nodes.forEach((node) => {
+    const template = templateMap.get(node.type);
+    if (!template) return;
+    // 后端返回的模板可能不带 configurable
+    (template.configurable || [])
+      .filter((field) => field.required)
+      .forEach((field) => {
+        if (isEmptyValue(node.properties?.[field.key])) {
+          errors.push({
+            code: 'MISSING_REQUIRED_FIELD',
+            message: `节点「${nodeLabel(node)}」缺少必填项「${field.label}」`,
+            nodeId: node.id,
+            field: field.key,
+          });
+        }
+      });
+  });
+
+  return { valid: errors.length === 0, errors, warnings };
+}